@@ -6,4 +6,11 @@ declare module '*.md' {
 declare namespace chrome
 {
     export const action = chrome.browserAction
-}
\ No newline at end of file
+}
+
+// Not in TypeScript's DOM lib yet, available in Chrome 103+ and Firefox 113+
+declare class DecompressionStream implements ReadableWritablePair<Uint8Array, Uint8Array> {
+    constructor(format: 'gzip' | 'deflate' | 'deflate-raw')
+    readonly readable: ReadableStream<Uint8Array>
+    readonly writable: WritableStream<Uint8Array>
+}
@@ -2,7 +2,7 @@
 import path from 'path'
 import type { DialogManager } from '../../components/dialogs'
 import { getExtensionSettingsAsync, setExtensionSetting, ytUrlResolversSettings } from "../../settings"
-import { getFileContent } from '../file'
+import { downloadFile, getFileContent } from '../file'
 
 async function generateKeys() {
     const keys = await crypto.subtle.generateKey(
@@ -140,20 +140,6 @@ export function friendlyPublicKey(publicKey: string | null) {
     return `${publicKey?.substring(0, 32)}...`
 }
 
-function download(data: string, filename: string, type: string) {
-    const file = new Blob([data], { type: type })
-    const a = document.createElement("a")
-    const url = URL.createObjectURL(file)
-    a.href = url
-    a.download = filename
-    document.body.appendChild(a)
-    a.click()
-    setTimeout(() => {
-        document.body.removeChild(a)
-        window.URL.revokeObjectURL(url)
-    })
-}
-
 // Using callback here because there is no good solution for detecting cancel event
 export function inputKeyFile(callback: (file: File | null) => void) {
     const input = document.createElement("input")
@@ -176,7 +162,7 @@ export async function exportProfileKeysAsFile() {
         privateKey
     })
 
-    download(json, `watch-on-odysee-profile-export-${friendlyPublicKey(publicKey)}.wol-keys.json`, 'application/json')
+    downloadFile(json, `watch-on-odysee-profile-export-${friendlyPublicKey(publicKey)}.wol-keys.json`, 'application/json')
 }
 
 export async function importProfileKeysFromFile(dialogManager: DialogManager, file: File) {
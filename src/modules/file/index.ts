@@ -12,4 +12,41 @@ export function getFileContent(file: File): Promise<string> {
         })
         reader.readAsText(file)
     })
-}
\ No newline at end of file
+}
+
+/**
+ * @param file to load, or a slice of one
+ * @returns a promise with the raw bytes of the file
+ */
+export function getFileBuffer(file: Blob): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader()
+        reader.addEventListener('load', event => resolve(event.target?.result as ArrayBuffer ?? new ArrayBuffer(0)))
+        reader.addEventListener('error', () => {
+            reader.abort()
+            reject(new DOMException(`Could not read ${file instanceof File ? file.name : 'file'}`))
+        })
+        reader.readAsArrayBuffer(file)
+    })
+}
+
+/**
+ * Makes the browser download the given contents as a file
+ *
+ * @param contents of the file
+ * @param fileName suggested to the user
+ * @param type MIME type of the file
+ */
+export function downloadFile(contents: string, fileName: string, type: string) {
+    const url = URL.createObjectURL(new Blob([contents], { type }))
+    const anchor = document.createElement('a')
+    anchor.href = url
+    anchor.download = fileName
+    // Firefox only downloads from anchors that are in the document
+    document.body.appendChild(anchor)
+    anchor.click()
+    setTimeout(() => {
+        anchor.remove()
+        URL.revokeObjectURL(url)
+    }, 1000)
+}
@@ -0,0 +1,174 @@
+import { getFileBuffer } from "./index"
+
+// Minimal ZIP reader, enough to pull single files out of a Google Takeout archive.
+// Only the central directory and the requested entries are read, so multi-GB archives
+// don't have to fit in memory.
+
+const EOCD_SIGNATURE = 0x06054b50
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50
+const ZIP64_EOCD_SIGNATURE = 0x06064b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const ZIP64_EXTRA_FIELD = 0x0001
+const EOCD_MIN_SIZE = 22
+const EOCD_MAX_COMMENT_SIZE = 0xffff
+const CENTRAL_HEADER_SIZE = 46
+const LOCAL_HEADER_SIZE = 30
+const CORRUPTED_ARCHIVE_MESSAGE = 'The ZIP archive is corrupted or incomplete.'
+
+export interface ZipEntry {
+    /** Full path of the entry inside the archive, with `/` separators */
+    name: string
+    compressionMethod: number
+    compressedSize: number
+    uncompressedSize: number
+    localHeaderOffset: number
+}
+
+async function readView(file: Blob, start: number, end: number) {
+    return new DataView(await getFileBuffer(file.slice(start, end)))
+}
+
+function getUint64(view: DataView, offset: number) {
+    // Safe up to 2^53, which is far beyond any archive a browser will open
+    return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000
+}
+
+async function findCentralDirectory(file: Blob): Promise<{ offset: number, size: number }> {
+    const tailStart = Math.max(0, file.size - EOCD_MIN_SIZE - EOCD_MAX_COMMENT_SIZE)
+    const tail = await readView(file, tailStart, file.size)
+
+    for (let i = tail.byteLength - EOCD_MIN_SIZE; i >= 0; i--) {
+        if (tail.getUint32(i, true) !== EOCD_SIGNATURE) continue
+
+        let size = tail.getUint32(i + 12, true)
+        let offset = tail.getUint32(i + 16, true)
+
+        // ZIP64 archives keep the real values in a separate record, pointed at by a locator right before the EOCD
+        const locatorPosition = i - 20
+        if ((offset === 0xffffffff || size === 0xffffffff) && locatorPosition >= 0 && tail.getUint32(locatorPosition, true) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+            const zip64EocdOffset = getUint64(tail, locatorPosition + 8)
+            const zip64Eocd = await readView(file, zip64EocdOffset, zip64EocdOffset + 56)
+            if (zip64Eocd.byteLength < 56 || zip64Eocd.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) throw new Error('Corrupted ZIP64 archive.')
+            size = getUint64(zip64Eocd, 40)
+            offset = getUint64(zip64Eocd, 48)
+        }
+
+        if (offset + size > file.size) throw new Error(CORRUPTED_ARCHIVE_MESSAGE)
+        return { offset, size }
+    }
+
+    throw new Error('Not a ZIP archive, or the archive is incomplete.')
+}
+
+/**
+ * Lists the files in a ZIP archive
+ *
+ * @param file the archive
+ * @returns the file entries, directories are left out
+ */
+export async function readZipEntries(file: Blob): Promise<ZipEntry[]> {
+    const centralDirectory = await findCentralDirectory(file)
+    const view = await readView(file, centralDirectory.offset, centralDirectory.offset + centralDirectory.size)
+    const decoder = new TextDecoder()
+    const entries: ZipEntry[] = []
+
+    let position = 0
+    while (position + CENTRAL_HEADER_SIZE <= view.byteLength && view.getUint32(position, true) === CENTRAL_HEADER_SIGNATURE) {
+        const nameLength = view.getUint16(position + 28, true)
+        const extraLength = view.getUint16(position + 30, true)
+        const commentLength = view.getUint16(position + 32, true)
+        if (position + CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength > view.byteLength) throw new Error(CORRUPTED_ARCHIVE_MESSAGE)
+        const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + position + CENTRAL_HEADER_SIZE, nameLength))
+
+        const entry: ZipEntry = {
+            name,
+            compressionMethod: view.getUint16(position + 10, true),
+            compressedSize: view.getUint32(position + 20, true),
+            uncompressedSize: view.getUint32(position + 24, true),
+            localHeaderOffset: view.getUint32(position + 42, true),
+        }
+
+        // ZIP64 extra field only holds the values that overflowed, in this order
+        let extraPosition = position + CENTRAL_HEADER_SIZE + nameLength
+        const extraEnd = extraPosition + extraLength
+        while (extraPosition + 4 <= extraEnd) {
+            const fieldId = view.getUint16(extraPosition, true)
+            const fieldSize = view.getUint16(extraPosition + 2, true)
+            if (fieldId === ZIP64_EXTRA_FIELD) {
+                let fieldPosition = extraPosition + 4
+                for (const key of ['uncompressedSize', 'compressedSize', 'localHeaderOffset'] as const) {
+                    if (entry[key] !== 0xffffffff) continue
+                    if (fieldPosition + 8 > extraEnd) throw new Error(CORRUPTED_ARCHIVE_MESSAGE)
+                    entry[key] = getUint64(view, fieldPosition)
+                    fieldPosition += 8
+                }
+            }
+            extraPosition += 4 + fieldSize
+        }
+
+        if (!name.endsWith('/')) entries.push(entry)
+        position = extraEnd + commentLength
+    }
+
+    return entries
+}
+
+/**
+ * Reads the contents of a single file from a ZIP archive
+ *
+ * @param file the archive
+ * @param entry one of the entries returned by `readZipEntries`
+ * @returns the uncompressed file contents
+ */
+export async function readZipEntry(file: Blob, entry: ZipEntry): Promise<ArrayBuffer> {
+    const localHeader = await readView(file, entry.localHeaderOffset, entry.localHeaderOffset + LOCAL_HEADER_SIZE)
+    if (localHeader.byteLength < LOCAL_HEADER_SIZE || localHeader.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) throw new Error(`Corrupted ZIP entry: ${entry.name}`)
+
+    const dataStart = entry.localHeaderOffset + LOCAL_HEADER_SIZE + localHeader.getUint16(26, true) + localHeader.getUint16(28, true)
+    if (dataStart + entry.compressedSize > file.size) throw new Error(`Corrupted ZIP entry: ${entry.name}`)
+    const data = await getFileBuffer(file.slice(dataStart, dataStart + entry.compressedSize))
+
+    switch (entry.compressionMethod) {
+        case 0: return data
+        case 8:
+            try {
+                return await inflateRaw(data)
+            }
+            catch {
+                throw new Error(`Corrupted ZIP entry: ${entry.name}`)
+            }
+        default: throw new Error(`Unsupported ZIP compression method ${entry.compressionMethod} for ${entry.name}`)
+    }
+}
+
+async function inflateRaw(data: ArrayBuffer): Promise<ArrayBuffer> {
+    const stream = new DecompressionStream('deflate-raw')
+    const writer = stream.writable.getWriter()
+    // Errors surface on the reader, the writer's own promises would only be reported as unhandled
+    writer.write(new Uint8Array(data)).catch(() => { })
+    writer.close().catch(() => { })
+
+    const reader = stream.readable.getReader()
+    const chunks: Uint8Array[] = []
+    let length = 0
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        chunks.push(chunk.value)
+        length += chunk.value.byteLength
+    }
+
+    const result = new Uint8Array(length)
+    let offset = 0
+    for (const chunk of chunks) {
+        result.set(chunk, offset)
+        offset += chunk.byteLength
+    }
+    return result.buffer
+}
+
+/**
+ * Reads a file from a ZIP archive as UTF-8 text
+ */
+export async function readZipEntryText(file: Blob, entry: ZipEntry): Promise<string> {
+    return new TextDecoder().decode(await readZipEntry(file, entry))
+}
@@ -0,0 +1,361 @@
+import { logger } from "../logger"
+
+// Key-value stores in IndexedDB where every entry expires.
+// Entries are stored as { value, expireAt }, null values are cached misses and usually expire sooner than hits.
+
+export interface TtlStoreOptions {
+    /** How long a value is kept, in milliseconds */
+    hitTtl: number
+    /** How long a null value (a known miss) is kept, in milliseconds */
+    missTtl: number
+    /** Expired entries are only deleted after this long, so they can still be read as stale. Defaults to 0 */
+    staleRetention?: number
+    /** The least recently used entries are evicted above this many entries. No limit when unset */
+    maxEntries?: number
+}
+
+export type TtlLifetimes = Pick<TtlStoreOptions, 'hitTtl' | 'missTtl'>
+
+/**
+ * Upgrades the database from the previous version to the one it's keyed by.
+ * Runs inside the versionchange transaction, so it can create, delete and rewrite stores.
+ */
+export type TtlMigration = (database: IDBDatabase, transaction: IDBTransaction) => void
+
+export interface TtlDatabaseSchema<Stores extends Record<string, unknown>> {
+    name: string
+    version: number
+    stores: { [K in keyof Stores]: TtlStoreOptions }
+    /** Keyed by the version they upgrade to, every version from 1 up to `version` needs one */
+    migrations: Record<number, TtlMigration>
+}
+
+export interface TtlEntry<T> {
+    value: T | null
+    expireAt: Date
+    /** Missing on entries written before LRU eviction, until the migration adding it runs */
+    lastAccessAt?: Date
+}
+
+export interface TtlStoreEntry<T> extends TtlEntry<T> {
+    key: string
+}
+
+export interface TtlStore<T> {
+    /** A value means it is cached, null is a cached miss and undefined means no fresh cache */
+    get(key: string): Promise<T | null | undefined>
+    /** Same as get, but expired entries are returned too, flagged as expired */
+    getEntry(key: string): Promise<{ value: T | null, expired: boolean } | undefined>
+    put(key: string, value: T | null): Promise<void>
+    /** Reads the keys in a single transaction, in the same order, undefined where there is no entry */
+    getMany(keys: string[]): Promise<(TtlEntry<T> | undefined)[]>
+    /** Writes the entries in a single transaction, with the expiry from `getExpireAt` */
+    putMany(entries: { key: string, value: T | null }[]): Promise<void>
+    /** When an entry with this value written now expires */
+    getExpireAt(value: T | null): Date
+    /** Every entry in the store, expired ones included, in key order */
+    entries(): Promise<TtlStoreEntry<T>[]>
+    /**
+     * Writes the entries with their own expiry, unless the stored entry expires later
+     * @returns how many entries were written
+     */
+    merge(entries: TtlStoreEntry<T>[]): Promise<number>
+    delete(key: string): Promise<void>
+    count(): Promise<number>
+    clear(): Promise<void>
+    clearExpired(): Promise<void>
+    /** Clears expired entries and evicts the least recently used ones above `maxEntries` */
+    runMaintenance(): Promise<void>
+    /** Changes the options at runtime, e.g. from the extension settings */
+    configure(options: Partial<TtlStoreOptions>): void
+    /** Moves the expiry of every entry as if it had been written with the new lifetimes instead of the previous ones */
+    restamp(previous: TtlLifetimes, next: TtlLifetimes): Promise<void>
+}
+
+/** Creates an object store in the shape every TTL store expects, for use in migrations */
+export function createTtlObjectStore(database: IDBDatabase, storeName: string) {
+    if (database.objectStoreNames.contains(storeName)) return
+    database.createObjectStore(storeName).createIndex("expireAt", "expireAt")
+}
+
+/**
+ * Adds the index LRU eviction walks, for use in migrations.
+ * Entries from before it are stamped as used now, so they are neither evicted first nor kept forever.
+ */
+export function addLastAccessIndex(transaction: IDBTransaction, storeName: string) {
+    const store = transaction.objectStore(storeName)
+    if (!store.indexNames.contains("lastAccessAt")) store.createIndex("lastAccessAt", "lastAccessAt")
+    const now = new Date()
+    const cursorRequest = store.openCursor()
+    cursorRequest.addEventListener('success', () => {
+        const cursor = cursorRequest.result
+        if (!cursor) return
+        if (!cursor.value.lastAccessAt) cursor.update({ ...cursor.value, lastAccessAt: now })
+        cursor.continue()
+    })
+}
+
+// Reads restamp the last access at most this often, so reads don't turn into a write each
+const ACCESS_STAMP_INTERVAL = 60 * 60 * 1000
+// Writes are followed by a maintenance run after this long, batching the work of many writes
+const MAINTENANCE_DELAY = 30 * 1000
+// Share of the entries evicted when the browser refuses a write for quota
+const QUOTA_EVICTION_SHARE = 0.1
+const QUOTA_EVICTION_MIN = 100
+
+function isQuotaExceededError(error: unknown) {
+    return error instanceof DOMException && error.name === 'QuotaExceededError'
+}
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+    return new Promise<T>((resolve, reject) => {
+        request.addEventListener('success', () => resolve(request.result))
+        request.addEventListener('error', () => reject(request.error))
+    })
+}
+
+function openDatabase(schema: TtlDatabaseSchema<any>) {
+    return new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof self.indexedDB === 'undefined') return reject(`IndexedDB not supported`)
+
+        const openRequest = indexedDB.open(schema.name, schema.version)
+        openRequest.addEventListener('upgradeneeded', (event) => {
+            const database = openRequest.result
+            const transaction = openRequest.transaction!
+            for (let version = event.oldVersion + 1; version <= schema.version; version++) {
+                const migration = schema.migrations[version]
+                if (!migration) throw new Error(`${schema.name} has no migration to version ${version}`)
+                logger.log(`Migrating ${schema.name} to version ${version}`)
+                migration(database, transaction)
+            }
+        })
+        openRequest.addEventListener('success', () => resolve(openRequest.result), { once: true })
+        openRequest.addEventListener('error', () => reject(openRequest.error))
+    })
+}
+
+function createTtlStore<T>(db: Promise<IDBDatabase>, storeName: string, initialOptions: TtlStoreOptions): TtlStore<T> {
+    const options: TtlStoreOptions = { ...initialOptions }
+    let maintenanceTimer: ReturnType<typeof setTimeout> | null = null
+
+    async function getStore(mode: IDBTransactionMode) {
+        return (await db).transaction(storeName, mode).objectStore(storeName)
+    }
+
+    /**
+     * Runs the writes in a transaction of their own and waits for it to commit.
+     * Quota errors abort the transaction rather than fail a request, so only the commit tells.
+     */
+    async function write(run: (store: IDBObjectStore) => void) {
+        const transaction = (await db).transaction(storeName, "readwrite")
+        run(transaction.objectStore(storeName))
+        await new Promise<void>((resolve, reject) => {
+            transaction.addEventListener('complete', () => resolve())
+            transaction.addEventListener('abort', () => reject(transaction.error))
+        })
+    }
+
+    /** Makes room by evicting entries when the write hits the quota, then tries it once more */
+    async function writeWithQuotaRecovery(run: (store: IDBObjectStore) => void) {
+        try {
+            await write(run)
+        } catch (error) {
+            if (!isQuotaExceededError(error)) throw error
+            logger.warn(`${storeName} cache hit the storage quota, evicting the least recently used entries`)
+            await clearExpired()
+            await evictLeastRecentlyUsed(Math.max(QUOTA_EVICTION_MIN, Math.ceil(await count() * QUOTA_EVICTION_SHARE)))
+            await write(run)
+        }
+    }
+
+    /** Stamps the read entries as used, rereading them in the write transaction so a newer value written meanwhile isn't overwritten */
+    function touch(reads: [string, TtlEntry<T>][]) {
+        const keys = reads
+            .filter(([, entry]) => !entry.lastAccessAt || Date.now() - entry.lastAccessAt.getTime() >= ACCESS_STAMP_INTERVAL)
+            .map(([key]) => key)
+        if (keys.length === 0) return
+        const lastAccessAt = new Date()
+        write((store) => {
+            for (const key of keys) {
+                const request = store.get(key)
+                request.addEventListener('success', () => {
+                    if (request.result) store.put({ ...request.result, lastAccessAt }, key)
+                })
+            }
+        }).catch((error) => logger.warn(`Could not stamp ${storeName} entries as used`, error))
+    }
+
+    async function getEntry(key: string) {
+        const response = await requestToPromise((await getStore("readonly")).get(key)) as TtlEntry<T> | undefined
+        if (response === undefined) return undefined
+        touch([[key, response]])
+        return { value: response.value, expired: response.expireAt <= new Date() }
+    }
+
+    async function get(key: string) {
+        const entry = await getEntry(key)
+        if (!entry || entry.expired) return undefined
+        return entry.value
+    }
+
+    function getExpireAt(value: T | null) {
+        return new Date(Date.now() + (value === null ? options.missTtl : options.hitTtl))
+    }
+
+    async function put(key: string, value: T | null) {
+        await putMany([{ key, value }])
+    }
+
+    async function getMany(keys: string[]) {
+        const store = await getStore("readonly")
+        const entries = await Promise.all(keys.map((key) => requestToPromise(store.get(key)) as Promise<TtlEntry<T> | undefined>))
+        touch(keys.map((key, index) => [key, entries[index]!] as [string, TtlEntry<T>]).filter(([, entry]) => entry))
+        return entries
+    }
+
+    async function putMany(entries: { key: string, value: T | null }[]) {
+        if (entries.length === 0) return
+        const lastAccessAt = new Date()
+        await writeWithQuotaRecovery((store) => {
+            for (const { key, value } of entries) {
+                const entry: TtlEntry<T> = { value, expireAt: getExpireAt(value), lastAccessAt }
+                logger.debug('caching', storeName, key, value, 'until:', entry.expireAt)
+                store.put(entry, key)
+            }
+        })
+        scheduleMaintenance()
+    }
+
+    async function entries() {
+        const store = await getStore("readonly")
+        const [keys, values] = await Promise.all([
+            requestToPromise(store.getAllKeys()),
+            requestToPromise(store.getAll()) as Promise<TtlEntry<T>[]>
+        ])
+        return keys.map((key, index): TtlStoreEntry<T> => ({ key: String(key), ...values[index] }))
+    }
+
+    async function merge(entries: TtlStoreEntry<T>[]) {
+        let written = 0
+        await writeWithQuotaRecovery((store) => {
+            written = 0
+            const lastAccessAt = new Date()
+            for (const { key, value, expireAt } of entries) {
+                const request = store.get(key)
+                request.addEventListener('success', () => {
+                    const existing = request.result as TtlEntry<T> | undefined
+                    if (existing && existing.expireAt >= expireAt) return
+                    store.put({ value, expireAt, lastAccessAt }, key)
+                    written++
+                })
+            }
+        })
+        scheduleMaintenance()
+        return written
+    }
+
+    async function deleteEntry(key: string) {
+        await requestToPromise((await getStore("readwrite")).delete(key))
+    }
+
+    async function count() {
+        return await requestToPromise((await getStore("readonly")).count())
+    }
+
+    async function clear() {
+        await requestToPromise((await getStore("readwrite")).clear())
+    }
+
+    async function deleteByCursor(cursorRequest: IDBRequest<IDBCursorWithValue | null>, limit = Infinity) {
+        let deleted = 0
+        await new Promise<void>((resolve, reject) => {
+            cursorRequest.addEventListener('error', () => reject(cursorRequest.error))
+            cursorRequest.addEventListener('success', () => {
+                const cursor = cursorRequest.result
+                if (!cursor || deleted >= limit) return resolve()
+                cursor.delete()
+                deleted++
+                cursor.continue()
+            })
+        })
+        return deleted
+    }
+
+    async function clearExpired() {
+        const range = IDBKeyRange.upperBound(new Date(Date.now() - (options.staleRetention ?? 0)))
+        await deleteByCursor((await getStore("readwrite")).index("expireAt").openCursor(range))
+    }
+
+    async function evictLeastRecentlyUsed(limit: number) {
+        if (limit <= 0) return
+        const evicted = await deleteByCursor((await getStore("readwrite")).index("lastAccessAt").openCursor(), limit)
+        logger.log(`Evicted ${evicted} least recently used ${storeName} entries`)
+    }
+
+    async function runMaintenance() {
+        await clearExpired()
+        if (options.maxEntries === undefined) return
+        await evictLeastRecentlyUsed(await count() - options.maxEntries)
+    }
+
+    function scheduleMaintenance() {
+        if (maintenanceTimer) return
+        maintenanceTimer = setTimeout(() => {
+            maintenanceTimer = null
+            runMaintenance().catch((error) => logger.error(`${storeName} cache maintenance failed:`, error))
+        }, MAINTENANCE_DELAY)
+    }
+
+    function configure(changes: Partial<TtlStoreOptions>) {
+        Object.assign(options, changes)
+        scheduleMaintenance()
+    }
+
+    async function restamp(previous: TtlLifetimes, next: TtlLifetimes) {
+        const hitShift = next.hitTtl - previous.hitTtl
+        const missShift = next.missTtl - previous.missTtl
+        if (hitShift === 0 && missShift === 0) return
+        await write((store) => {
+            const cursorRequest = store.openCursor()
+            cursorRequest.addEventListener('success', () => {
+                const cursor = cursorRequest.result
+                if (!cursor) return
+                const entry = cursor.value as TtlEntry<T>
+                const shift = entry.value === null ? missShift : hitShift
+                if (shift !== 0) cursor.update({ ...entry, expireAt: new Date(entry.expireAt.getTime() + shift) })
+                cursor.continue()
+            })
+        })
+        // Shorter lifetimes can leave entries past their stale retention
+        scheduleMaintenance()
+    }
+
+    return { get, getEntry, put, getMany, putMany, getExpireAt, entries, merge, delete: deleteEntry, count, clear, clearExpired, runMaintenance, configure, restamp }
+}
+
+/**
+ * Opens a database of TTL stores, upgrading it through the schema's migrations when it's older.
+ * Maintenance runs once the database is open, and again after writes.
+ */
+export function openTtlDatabase<Stores extends Record<string, unknown>>(schema: TtlDatabaseSchema<Stores>) {
+    const db = openDatabase(schema)
+    const stores = Object.fromEntries(
+        Object.entries(schema.stores).map(([storeName, options]) => [storeName, createTtlStore(db, storeName, options)])
+    ) as { [K in keyof Stores]: TtlStore<Stores[K]> }
+
+    async function clearAll() {
+        for (const store of Object.values(stores)) await store.clear()
+    }
+
+    async function runMaintenance() {
+        try {
+            for (const store of Object.values(stores)) await store.runMaintenance()
+        } catch (error) {
+            logger.error(`${schema.name} maintenance failed:`, error)
+        }
+    }
+
+    db.then(runMaintenance, (error) => logger.error(`Failed to open ${schema.name}:`, error))
+
+    return { stores, clearAll, runMaintenance }
+}
@@ -0,0 +1,119 @@
+import { logger } from "../logger"
+import type { TtlEntry, TtlStore } from "."
+
+// An in-memory layer in front of a TTL store.
+// Reads are answered from memory when possible and the rest is read from IndexedDB in one transaction,
+// writes land in memory right away and are written back to IndexedDB in batches.
+// It starts empty, so a restarted service worker refills it from IndexedDB as IDs get asked for again.
+// Other extension contexts change the store through the one that holds the layer, or their changes would be hidden behind it.
+
+export interface MemoryCacheOptions {
+    /** The least recently used entries are dropped from memory above this many */
+    maxEntries: number
+    /** Entries are reread from IndexedDB after this long, so changes made from other extension pages show up */
+    maxAge: number
+    /** Writes are collected this long before being written back together */
+    writeDelay: number
+}
+
+interface MemoryEntry<T> extends TtlEntry<T> {
+    loadedAt: number
+}
+
+export function createMemoryCache<T>(store: TtlStore<T>, options: MemoryCacheOptions) {
+    // Map keeps insertion order, reinserting on every read keeps the least recently used entry first
+    const memory = new Map<string, MemoryEntry<T>>()
+    const pendingWrites = new Map<string, T | null>()
+    let writeTimer: ReturnType<typeof setTimeout> | null = null
+    // The write back in progress, so clearing can wait for it instead of having it land after
+    let writing: Promise<void> = Promise.resolve()
+
+    function remember(key: string, entry: TtlEntry<T>) {
+        memory.delete(key)
+        memory.set(key, { value: entry.value, expireAt: entry.expireAt, loadedAt: Date.now() })
+        while (memory.size > options.maxEntries) memory.delete(memory.keys().next().value!)
+    }
+
+    function recall(key: string): MemoryEntry<T> | undefined {
+        const entry = memory.get(key)
+        if (!entry) return undefined
+        if (Date.now() - entry.loadedAt > options.maxAge) {
+            memory.delete(key)
+            return undefined
+        }
+        memory.delete(key)
+        memory.set(key, entry)
+        return entry
+    }
+
+    /**
+     * @returns the entry of every key that has one, expired ones included and flagged as expired
+     */
+    async function getEntries(keys: string[]): Promise<Map<string, { value: T | null, expired: boolean }>> {
+        const found = new Map<string, TtlEntry<T>>()
+        const misses: string[] = []
+        for (const key of new Set(keys)) {
+            const entry = recall(key)
+            if (entry) found.set(key, entry)
+            // Dropped from memory before it was written back
+            else if (pendingWrites.has(key)) found.set(key, { value: pendingWrites.get(key)!, expireAt: store.getExpireAt(pendingWrites.get(key)!) })
+            else misses.push(key)
+        }
+
+        if (misses.length > 0) {
+            const entries = await store.getMany(misses)
+            misses.forEach((key, index) => {
+                const entry = entries[index]
+                if (!entry) return
+                // A write made while the read was in flight is newer
+                if (memory.has(key)) return found.set(key, memory.get(key)!)
+                remember(key, entry)
+                found.set(key, entry)
+            })
+        }
+
+        const now = new Date()
+        return new Map([...found].map(([key, entry]) => [key, { value: entry.value, expired: entry.expireAt <= now }]))
+    }
+
+    /** Writes what's pending back to IndexedDB now, resolves once everything written so far is stored */
+    async function flush() {
+        if (writeTimer) clearTimeout(writeTimer)
+        writeTimer = null
+        const writes = [...pendingWrites].map(([key, value]) => ({ key, value }))
+        pendingWrites.clear()
+        const write = writing.catch(() => { }).then(() => store.putMany(writes))
+        writing = write
+        await write
+    }
+
+    /** Stores the value in memory now, and in IndexedDB shortly after */
+    function put(key: string, value: T | null) {
+        remember(key, { value, expireAt: store.getExpireAt(value) })
+        pendingWrites.set(key, value)
+        if (!writeTimer) writeTimer = setTimeout(() => flush().catch((error) => logger.error('Could not write the cache back to IndexedDB:', error)), options.writeDelay)
+    }
+
+    /** Forgets the keys, writes of them not written back yet included. Resolves once nothing can write them back anymore */
+    async function remove(keys: string[]) {
+        for (const key of keys) {
+            memory.delete(key)
+            pendingWrites.delete(key)
+        }
+        await writing.catch(() => { })
+    }
+
+    /** Forgets everything, resolves once nothing can write back anymore */
+    async function clear() {
+        memory.clear()
+        pendingWrites.clear()
+        await writing.catch(() => { })
+    }
+
+    /** Drops what's in memory so it's read again, writes not written back yet are kept */
+    function invalidate() {
+        memory.clear()
+    }
+
+    return { getEntries, put, flush, remove, clear, invalidate }
+}
@@ -0,0 +1,55 @@
+import { CacheTtlSettingName, clampCacheTtl, DEFAULT_SETTINGS, ExtensionSettings, getExtensionSettingsAsync } from "../../settings"
+import type { TtlLifetimes, TtlStore } from "../ttlStore"
+
+type CacheSettings = Pick<ExtensionSettings, 'cacheMaxEntries' | CacheTtlSettingName>
+
+/** The settings holding the lifetimes of a cache */
+export interface CacheTtlSettings {
+    hitTtl: CacheTtlSettingName
+    missTtl: CacheTtlSettingName
+}
+export const urlCacheTtlSettings: CacheTtlSettings = { hitTtl: 'urlCacheHitTtl', missTtl: 'urlCacheMissTtl' }
+export const channelCacheTtlSettings: CacheTtlSettings = { hitTtl: 'channelCacheHitTtl', missTtl: 'channelCacheMissTtl' }
+
+const HOUR = 60 * 60 * 1000
+
+/** The lifetimes of the cache in milliseconds, invalid settings fall back to the defaults */
+export function getCacheLifetimes(settings: Partial<CacheSettings>, ttlSettings: CacheTtlSettings): TtlLifetimes {
+    const hours = (name: CacheTtlSettingName) => clampCacheTtl(name, settings[name]) ?? DEFAULT_SETTINGS[name]
+    return { hitTtl: hours(ttlSettings.hitTtl) * HOUR, missTtl: hours(ttlSettings.missTtl) * HOUR }
+}
+
+function applyMaxEntries(stores: TtlStore<any>[], maxEntries: unknown) {
+    if (typeof maxEntries !== 'number' || maxEntries <= 0) return
+    for (const store of stores) store.configure({ maxEntries })
+}
+
+/**
+ * Keeps the limits and lifetimes of the cache stores in sync with the extension settings.
+ * Existing entries aren't restamped here, every open extension page would do it again, `setCacheTtl` does it once.
+ *
+ * @param onLifetimesChange called after the lifetimes changed, for layers holding expiries of their own
+ */
+export function bindCacheSettings(stores: TtlStore<any>[], ttlSettings: CacheTtlSettings, onLifetimesChange?: () => void) {
+    const applyLifetimes = (settings: Partial<CacheSettings>) => {
+        const lifetimes = getCacheLifetimes(settings, ttlSettings)
+        for (const store of stores) store.configure(lifetimes)
+    }
+
+    let settings: Partial<CacheSettings> = {}
+    getExtensionSettingsAsync().then((current) => {
+        settings = { ...current, ...settings }
+        applyMaxEntries(stores, settings.cacheMaxEntries)
+        applyLifetimes(settings)
+    })
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+        if (areaName !== 'local') return
+        if (changes.cacheMaxEntries) applyMaxEntries(stores, changes.cacheMaxEntries.newValue)
+        if (!changes[ttlSettings.hitTtl] && !changes[ttlSettings.missTtl]) return
+        for (const name of [ttlSettings.hitTtl, ttlSettings.missTtl]) {
+            if (changes[name]) settings = { ...settings, [name]: changes[name].newValue }
+        }
+        applyLifetimes(settings)
+        onLifetimesChange?.()
+    })
+}
@@ -0,0 +1,101 @@
+import { getFileContent } from "../file"
+import type { TtlStore, TtlStoreEntry } from "../ttlStore"
+import { isChannelId } from "."
+import { cacheStores, CacheStoreName } from "./caches"
+import { odyseeUrlCache } from "./urlCacheClient"
+
+// Moves the resolver caches between browsers as a JSON file
+
+const CACHE_EXPORT_FORMAT = 'watch-on-odysee-cache'
+const CACHE_EXPORT_VERSION = 1
+
+interface ExportedCacheEntry {
+    key: string
+    value: unknown
+    /** ISO date */
+    expireAt: string
+}
+
+export interface CacheExport {
+    format: typeof CACHE_EXPORT_FORMAT
+    version: number
+    exportedAt: string
+    stores: Partial<Record<CacheStoreName, ExportedCacheEntry[]>>
+}
+
+export interface CacheImportResult {
+    /** Entries written, because they were new or expire later than the stored ones */
+    imported: number
+    /** Entries kept as they were, because the stored ones expire later */
+    unchanged: number
+    /** Entries that could not be read */
+    invalid: number
+}
+
+/**
+ * Writes every entry of the resolver caches, expired ones included, with their expiry
+ */
+export async function exportCaches(): Promise<string> {
+    const stores: CacheExport['stores'] = {}
+    for (const [name, store] of Object.entries(cacheStores) as [CacheStoreName, TtlStore<unknown>][]) {
+        stores[name] = (await store.entries()).map(({ key, value, expireAt }) => ({ key, value, expireAt: expireAt.toISOString() }))
+    }
+    const cacheExport: CacheExport = { format: CACHE_EXPORT_FORMAT, version: CACHE_EXPORT_VERSION, exportedAt: new Date().toISOString(), stores }
+    return JSON.stringify(cacheExport)
+}
+
+const isChannelIdValue = (value: unknown) => typeof value === 'string' && isChannelId(value)
+
+/** What a cached value of each store looks like, null being a cached miss in all of them */
+const valueValidators: Record<CacheStoreName, (value: unknown) => boolean> = {
+    // Odysee paths
+    urls: (value) => typeof value === 'string' && value.length > 0,
+    handles: isChannelIdValue,
+    yturls: isChannelIdValue,
+    // Channel targets, the content script stores the Odysee path as odyseePathname
+    ucs: (value) => {
+        if (typeof value !== 'object' || value === null) return false
+        const target = value as { id?: unknown, odyseePathname?: unknown, type?: unknown }
+        return (target.type === 'channel' || target.type === 'video') && (typeof target.id === 'string' || typeof target.odyseePathname === 'string')
+    },
+}
+
+/**
+ * Reads an exported entry for the store, null if it isn't one.
+ * The expiry is capped to what the store would give the value if it was cached now, so a file can't keep entries around for longer.
+ */
+function readEntry(name: CacheStoreName, store: TtlStore<unknown>, entry: unknown): TtlStoreEntry<unknown> | null {
+    if (typeof entry !== 'object' || entry === null) return null
+    const { key, value, expireAt } = entry as Partial<ExportedCacheEntry>
+    if (typeof key !== 'string' || typeof expireAt !== 'string' || value === undefined) return null
+    if (value !== null && !valueValidators[name](value)) return null
+    const date = new Date(expireAt)
+    if (isNaN(date.getTime())) return null
+    const maxExpireAt = store.getExpireAt(value)
+    return { key, value, expireAt: date > maxExpireAt ? maxExpireAt : date }
+}
+
+/**
+ * Merges an exported cache file into the caches. For entries in both, the one that expires later is kept.
+ * Throws if the file isn't a cache export, or is from a newer version of the extension.
+ */
+export async function importCaches(file: File): Promise<CacheImportResult> {
+    let cacheExport: CacheExport
+    try { cacheExport = JSON.parse(await getFileContent(file)) } catch { throw new Error(`${file.name} is not a JSON file.`) }
+    if (cacheExport?.format !== CACHE_EXPORT_FORMAT || typeof cacheExport.stores !== 'object') throw new Error(`${file.name} is not a Watch on Odysee cache export.`)
+    if (cacheExport.version > CACHE_EXPORT_VERSION) throw new Error(`${file.name} is from a newer version of the extension, update it to import this file.`)
+
+    const result: CacheImportResult = { imported: 0, unchanged: 0, invalid: 0 }
+    for (const [name, store] of Object.entries(cacheStores) as [CacheStoreName, TtlStore<unknown>][]) {
+        const exported = cacheExport.stores[name]
+        if (!Array.isArray(exported)) continue
+        const entries = exported.map((entry) => readEntry(name, store, entry)).filter((entry): entry is TtlStoreEntry<unknown> => !!entry)
+        const written = await store.merge(entries)
+        result.imported += written
+        result.unchanged += entries.length - written
+        result.invalid += exported.length - entries.length
+    }
+    // The background would go on answering the URLs it holds in memory
+    if (result.imported > 0) await odyseeUrlCache.invalidate()
+    return result
+}
@@ -0,0 +1,51 @@
+import { CacheTtlSettingName, clampCacheTtl, getExtensionSettingsAsync, setExtensionSetting } from "../../settings"
+import type { TtlStore } from "../ttlStore"
+import { CacheTtlSettings, channelCacheTtlSettings, getCacheLifetimes, urlCacheTtlSettings } from "./cacheSettings"
+import { channelCache } from "./channelCache"
+import { odyseeUrlCache } from "./urlCache"
+
+export type CacheStoreName = 'urls' | 'handles' | 'ucs' | 'yturls'
+
+/** Every store of the resolver caches, by the name used in export files */
+export const cacheStores: Record<CacheStoreName, TtlStore<unknown>> = {
+    urls: odyseeUrlCache.store,
+    handles: channelCache.stores.handles,
+    ucs: channelCache.stores.ucs,
+    yturls: channelCache.stores.yturls
+}
+
+export interface CacheStats {
+    entries: number
+    /** What the browser reports the extension's storage uses, null if it doesn't tell */
+    bytes: number | null
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+    const counts = await Promise.all(Object.values(cacheStores).map((store) => store.count()))
+    const estimate = await navigator.storage?.estimate?.().catch(() => null)
+    return { entries: counts.reduce((sum, count) => sum + count, 0), bytes: estimate?.usage ?? null }
+}
+
+const cacheTtlSettings: [CacheTtlSettings, TtlStore<unknown>[]][] = [
+    [urlCacheTtlSettings, [cacheStores.urls]],
+    [channelCacheTtlSettings, [cacheStores.handles, cacheStores.ucs, cacheStores.yturls]]
+]
+
+/**
+ * Changes a cache lifetime setting, and moves the expiry of the entries already cached to match it
+ * @returns false if the value isn't a number
+ */
+export async function setCacheTtl(name: CacheTtlSettingName, hours: number): Promise<boolean> {
+    const next = clampCacheTtl(name, hours)
+    if (next === null) return false
+    const settings = await getExtensionSettingsAsync()
+    if (settings[name] === next) return true
+    await setExtensionSetting(name, next)
+    for (const [ttlSettings, stores] of cacheTtlSettings) {
+        if (ttlSettings.hitTtl !== name && ttlSettings.missTtl !== name) continue
+        const previous = getCacheLifetimes(settings, ttlSettings)
+        const lifetimes = getCacheLifetimes({ ...settings, [name]: next }, ttlSettings)
+        for (const store of stores) await store.restamp(previous, lifetimes)
+    }
+    return true
+}
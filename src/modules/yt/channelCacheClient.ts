@@ -0,0 +1,35 @@
+import type { channelCache as backgroundChannelCache } from "./channelCache"
+
+// Content scripts reach the channel cache through the background, so there is a single cache in the extension origin.
+// A database opened by a content script would live in the page's origin, where the page can read and modify it.
+
+type ChannelCache = typeof backgroundChannelCache
+/** The channel cache methods the background answers `channelCache` messages for */
+export type ChannelCacheMethod = 'putHandle' | 'getHandle' | 'putUC' | 'getUC' | 'deleteUC' | 'putYtUrl' | 'getYtUrl'
+export const channelCacheMethods: ChannelCacheMethod[] = ['putHandle', 'getHandle', 'putUC', 'getUC', 'deleteUC', 'putYtUrl', 'getYtUrl']
+
+function call<M extends ChannelCacheMethod>(method: M, ...args: Parameters<ChannelCache[M]>): ReturnType<ChannelCache[M]> {
+    return new Promise((resolve, reject) => {
+        chrome.runtime.sendMessage({ method: 'channelCache', data: JSON.stringify({ method, args }) }, (response: string | undefined) => {
+            if (chrome.runtime.lastError) return reject(new Error(chrome.runtime.lastError.message))
+            if (!response || response.startsWith('error:')) return reject(new Error(`Background error. ${response ?? ''}`))
+            // Wrapped, so undefined (no cache) and null (cached miss) stay apart
+            resolve(JSON.parse(response).result)
+        })
+    }) as ReturnType<ChannelCache[M]>
+}
+
+export const channelCache: Pick<ChannelCache, ChannelCacheMethod> = {
+    putHandle: (...args) => call('putHandle', ...args),
+    getHandle: (...args) => call('getHandle', ...args),
+    putUC: (...args) => call('putUC', ...args),
+    getUC: (...args) => call('getUC', ...args),
+    deleteUC: (...args) => call('deleteUC', ...args),
+    putYtUrl: (...args) => call('putYtUrl', ...args),
+    getYtUrl: (...args) => call('getYtUrl', ...args),
+}
+
+/** Deletes the cache content scripts used to keep in the page's origin */
+export function deleteLegacyPageChannelCache() {
+    try { indexedDB.deleteDatabase("yt-channel-cache-v1") } catch { }
+}
@@ -0,0 +1,83 @@
+// Circuit breaker for the URL resolvers.
+// After a few failed requests in a row a resolver is skipped for a cool-down period,
+// then a single trial request decides if it's healthy again.
+// Extension pages and content scripts resolve through the background, so its breaker is the only one that runs.
+// This module has no IndexedDB dependency, so content scripts can import the types and the error.
+
+const FAILURE_THRESHOLD = 3
+const COOL_DOWN_MS = 60 * 1000
+
+/** Published in `chrome.storage.local` under `wolResolverCircuit`, kept out of the settings, while every resolver is unavailable */
+export interface ResolverCircuitState {
+    openUntil: number | null
+}
+
+/** Thrown when every resolver is cooling down, so no request was even attempted */
+export class ResolverUnavailableError extends Error {
+    constructor(public retryAt: number) {
+        super(`Resolvers unavailable until ${new Date(retryAt).toISOString()}`)
+        this.name = 'ResolverUnavailableError'
+    }
+}
+
+interface CircuitState {
+    failures: number
+    openUntil: number | null
+    // A trial request is in flight after the cool-down, others keep skipping until it settles
+    trial: boolean
+}
+
+const circuits = new Map<string, CircuitState>()
+
+function getCircuit(name: string) {
+    let circuit = circuits.get(name)
+    if (!circuit) circuits.set(name, circuit = { failures: 0, openUntil: null, trial: false })
+    return circuit
+}
+
+/**
+ * @returns true if a request to the resolver may be sent now
+ */
+export function canRequest(name: string): boolean {
+    const circuit = getCircuit(name)
+    if (circuit.openUntil === null) return true
+    if (Date.now() < circuit.openUntil || circuit.trial) return false
+    circuit.trial = true
+    return true
+}
+
+export function recordSuccess(name: string) {
+    const circuit = getCircuit(name)
+    circuit.failures = 0
+    circuit.openUntil = null
+    circuit.trial = false
+}
+
+/**
+ * @param openUntil opens the circuit right away until then, e.g. for a long `Retry-After`
+ */
+export function recordFailure(name: string, openUntil?: number) {
+    const circuit = getCircuit(name)
+    circuit.failures++
+    circuit.trial = false
+    if (openUntil) circuit.openUntil = openUntil
+    else if (circuit.failures >= FAILURE_THRESHOLD) circuit.openUntil = Date.now() + COOL_DOWN_MS
+}
+
+/**
+ * @returns when the earliest of the given resolvers may be tried again
+ */
+export function getRetryAt(names: string[]): number {
+    return Math.min(...names.map((name) => getCircuit(name).openUntil ?? Date.now()))
+}
+
+// Undefined until the first publish, so a state left over from a previous worker gets overwritten
+let publishedOpenUntil: number | null | undefined
+
+/** Lets content scripts and the popup know whether resolving is possible at all */
+export function publishCircuitState(openUntil: number | null) {
+    if (publishedOpenUntil === openUntil) return
+    publishedOpenUntil = openUntil
+    const state: ResolverCircuitState = { openUntil }
+    try { chrome.storage.local.set({ wolResolverCircuit: state }) } catch { }
+}
@@ -0,0 +1,86 @@
+import type { YtUrlResolveItem } from "./urlResolve"
+
+type Results = Record<string, YtUrlResolveItem>
+
+export interface ResolvedChannelExportItem {
+    youtubeChannelId: string
+    title: string | null
+    odyseeUrl: string
+    rssUrl: string
+}
+
+function escapeXml(value: string) {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+}
+
+/**
+ * @param domainPrefix the target platform's domain prefix, e.g. `https://odysee.com/`
+ * @param odyseePathname a channel path as returned by the resolver, e.g. `@veritasium:f`
+ * @returns the RSS feed URL of the channel
+ */
+export function getOdyseeRssUrl(domainPrefix: string, odyseePathname: string) {
+    return `${domainPrefix}$/rss/${odyseePathname}`
+}
+
+/**
+ * Lists the resolved channels, in the order of the results, with their Odysee page and feed URLs
+ *
+ * @param results channel resolution results, keyed by YT channel ID
+ * @param titles YT channel titles by channel ID, channels without one are labeled with their Odysee URL
+ * @param domainPrefix the target platform's domain prefix
+ */
+export function getResolvedChannelExportItems(results: Results, titles: Record<string, string>, domainPrefix: string): ResolvedChannelExportItem[] {
+    return Object.entries(results)
+        .filter(([, item]) => item.type === 'channel')
+        .map(([youtubeChannelId, item]) => ({
+            youtubeChannelId,
+            title: titles[youtubeChannelId] ?? null,
+            odyseeUrl: `${domainPrefix}${item.id}`,
+            rssUrl: getOdyseeRssUrl(domainPrefix, item.id)
+        }))
+}
+
+/**
+ * Writes the resolved channels as an OPML document of Odysee RSS feeds, for feed readers
+ */
+export function createOdyseeOpml(items: ResolvedChannelExportItem[]): string {
+    const outlines = items.map((item) => {
+        const label = escapeXml(item.title ?? item.odyseeUrl)
+        return `      <outline type="rss" text="${label}" title="${label}" xmlUrl="${escapeXml(item.rssUrl)}" htmlUrl="${escapeXml(item.odyseeUrl)}" />`
+    })
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<opml version="2.0">',
+        '  <head>',
+        '    <title>Odysee subscriptions</title>',
+        `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+        '  </head>',
+        '  <body>',
+        '    <outline text="Odysee" title="Odysee">',
+        ...outlines,
+        '    </outline>',
+        '  </body>',
+        '</opml>',
+        ''
+    ].join('\n')
+}
+
+/**
+ * Writes the Odysee URLs of the resolved channels, one per line
+ */
+export function createOdyseeUrlList(items: ResolvedChannelExportItem[]): string {
+    return items.map((item) => item.odyseeUrl).join('\n') + '\n'
+}
+
+/**
+ * Writes the resolved channels as JSON, with both the page and the feed URL of each channel
+ */
+export function createOdyseeUrlJson(items: ResolvedChannelExportItem[]): string {
+    return JSON.stringify(items, null, 2)
+}
@@ -0,0 +1,91 @@
+import { ExtensionSettings, getExtensionSettingsAsync, setExtensionSetting } from "../../settings"
+import { isChannelId } from "."
+import type { channelCache as backgroundChannelCache } from "./channelCache"
+
+// Channels and videos the user keeps watching on YouTube, the extension leaves them alone.
+// Channels are listed by ID or by @handle, handles are matched through the channel cache's handle → ID mapping.
+
+export type IgnoreListName = 'ignoredChannels' | 'ignoredVideos'
+
+/** The form a channel is kept in on a list: the ID as is, or the handle with its @ */
+export function normalizeChannelEntry(channel: string): string {
+    const value = channel.trim()
+    return isChannelId(value) ? value : `@${value.replace(/^@/, '')}`
+}
+
+// YT handles aren't case sensitive
+const handleKey = (handle: string) => `@${handle.replace(/^@/, '').toLowerCase()}`
+
+/** What two entries of a list are compared by */
+function itemKey(list: IgnoreListName, item: string) {
+    if (list === 'ignoredVideos') return item.trim()
+    const channel = normalizeChannelEntry(item)
+    return isChannelId(channel) ? channel : handleKey(channel)
+}
+
+/** What a YT page in a tab is about, as the content script tells the popup */
+export interface PageItems {
+    video: string | null
+    channel: { id: string | null, handle: string | null } | null
+}
+
+/** Whether any of the items is on the list, a channel is both its ID and its handle */
+export function isListed(settings: Pick<ExtensionSettings, IgnoreListName>, list: IgnoreListName, items: string[]) {
+    const keys = new Set(items.map((item) => itemKey(list, item)))
+    return (settings[list] ?? []).some((listed) => keys.has(itemKey(list, listed)))
+}
+
+/**
+ * Adds the first item to the list, or takes all of them off.
+ * Pass a channel's ID and handle both, so whichever of them is listed is taken off.
+ */
+export async function setIgnored(list: IgnoreListName, items: string[], ignored: boolean) {
+    const keys = new Set(items.map((item) => itemKey(list, item)))
+    const listed = ((await getExtensionSettingsAsync())[list] ?? []).filter((item) => !keys.has(itemKey(list, item)))
+    if (ignored && items.length > 0) listed.push(list === 'ignoredChannels' ? normalizeChannelEntry(items[0]) : items[0].trim())
+    await setExtensionSetting(list, listed)
+}
+
+export type IgnoreMatcher = ReturnType<typeof createIgnoreMatcher>
+
+/**
+ * Matches IDs against the lists in the settings.
+ * The handles on the list are looked up as the matcher is made, until then only the IDs and handles themselves match.
+ * @param channelCache the channel cache, or the client content scripts reach it through
+ */
+export function createIgnoreMatcher(settings: Pick<ExtensionSettings, IgnoreListName>, channelCache: Pick<typeof backgroundChannelCache, 'getHandle'>) {
+    const videos = new Set(settings.ignoredVideos ?? [])
+    const channels = new Set<string>()
+    const handles: string[] = []
+    for (const channel of settings.ignoredChannels ?? []) {
+        if (isChannelId(channel)) channels.add(channel)
+        else {
+            channels.add(handleKey(channel))
+            handles.push(channel)
+        }
+    }
+
+    const ready = Promise.all(handles.map(async (handle) => {
+        const channelId = await channelCache.getHandle(handle).catch(() => null)
+        if (channelId) channels.add(channelId)
+    }))
+
+    /** Whether the video or channel ID, or @handle, is on a list */
+    function isIgnored(idOrHandle: string | null | undefined): boolean {
+        if (!idOrHandle) return false
+        if (idOrHandle.startsWith('@')) return channels.has(handleKey(idOrHandle))
+        return videos.has(idOrHandle) || channels.has(idOrHandle)
+    }
+
+    /** Whether the channel is on the list, looking the handle up when the ID isn't known */
+    async function isChannelIgnored(channel: { id?: string | null, handle?: string | null }): Promise<boolean> {
+        await ready
+        if (isIgnored(channel.id) || (channel.handle && isIgnored(handleKey(channel.handle)))) return true
+        if (channel.id || !channel.handle) return false
+        return isIgnored(await channelCache.getHandle(channel.handle).catch(() => null))
+    }
+
+    const isEmpty = () => videos.size === 0 && channels.size === 0
+
+    return { ready, isIgnored, isChannelIgnored, isEmpty }
+}
@@ -1,8 +1,12 @@
+import { getFileBuffer, getFileContent } from "../file"
+import { readZipEntries, readZipEntryText, ZipEntry } from "../file/zip"
+
 interface YtExportedJsonSubscription {
     id: string
     etag: string
     title: string
     snippet: {
+        title?: string
         description: string
         resourceId: {
             channelId: string
@@ -10,30 +14,415 @@ interface YtExportedJsonSubscription {
     }
 }
 
+interface NewPipeSubscriptionsExport {
+    app_version?: string
+    subscriptions: {
+        service_id: number
+        url: string
+        name?: string
+    }[]
+}
+
+interface FreeTubeProfile {
+    _id?: string
+    name?: string
+    subscriptions?: {
+        id: string
+        name?: string
+    }[]
+    $$deleted?: boolean
+}
+
+interface LibreTubeBackup {
+    // Newer backups
+    subscriptions?: {
+        channelId?: string
+        url?: string
+        name?: string
+    }[]
+    // Older backups only kept the IDs
+    localSubscriptions?: {
+        channelId: string
+    }[]
+}
+
+const NEWPIPE_YOUTUBE_SERVICE_ID = 0
+
+/** A row, outline or entry of a subscriptions file that didn't yield a channel ID */
+export interface InvalidSubscriptionRow {
+    /** 1-based position of the row in the file */
+    row: number
+    content: string
+    reason: string
+}
+
+export interface SubscriptionsParseResult {
+    /** Unique YT channel IDs, in file order */
+    channelIds: string[]
+    /** YT channel titles by channel ID, when the file has them */
+    titles: Record<string, string>
+    invalidRows: InvalidSubscriptionRow[]
+}
+
+const channelIdPattern = /^UC[\w-]{22}$/
+
+export function isChannelId(value: string) {
+    return channelIdPattern.test(value)
+}
+
+function stripBom(contents: string) {
+    return contents.charCodeAt(0) === 0xFEFF ? contents.slice(1) : contents
+}
+
+function isJson(contents: string) {
+    try {
+        JSON.parse(contents)
+        return true
+    }
+    catch {
+        return false
+    }
+}
+
+function createParseResult() {
+    const result: SubscriptionsParseResult = { channelIds: [], titles: {}, invalidRows: [] }
+    const seen = new Set<string>()
+    return {
+        result,
+        add(channelId: string, title?: string | null) {
+            if (!seen.has(channelId)) {
+                seen.add(channelId)
+                result.channelIds.push(channelId)
+            }
+            if (title?.trim() && !result.titles[channelId]) result.titles[channelId] = title.trim()
+        },
+        invalid(row: number, content: string, reason: string) {
+            result.invalidRows.push({ row, content, reason })
+        }
+    }
+}
+
+/**
+ * Reads a channel ID from either a bare ID or a YT channel/feed URL
+ */
+function readChannelId(value: string | null | undefined): string | null {
+    value = value?.trim()
+    if (!value) return null
+    if (isChannelId(value)) return value
+    const channelId = getChannelId(value)
+    return channelId && isChannelId(channelId) ? channelId : null
+}
 
 /**
  * Reads the array of YT channels from an OPML file
  *
+ * Every outline with an `xmlUrl` is considered a feed, no matter how deep it's nested,
+ * the ones which aren't YT channel feeds are reported as invalid rows.
+ *
  * @param opmlContents an opml file as as tring
- * @returns the channel IDs
+ * @returns the channel IDs and the rows that couldn't be read
  */
-export function getSubsFromOpml(_: string): string[] { return [] }
+export function getSubsFromOpml(opmlContents: string): SubscriptionsParseResult {
+    const opml = new DOMParser().parseFromString(stripBom(opmlContents).trim(), 'application/xml')
+    if (opml.getElementsByTagName('parsererror').length > 0) throw new Error('The OPML file is not a valid XML document.')
+
+    const { result, add, invalid } = createParseResult()
+    const feeds = Array.from(opml.getElementsByTagName('outline')).filter((outline) => outline.hasAttribute('xmlUrl'))
+    feeds.forEach((outline, index) => {
+        const xmlUrl = outline.getAttribute('xmlUrl') ?? ''
+        const channelId = readChannelId(xmlUrl)
+        if (!channelId) return invalid(index + 1, xmlUrl, 'Not a YouTube channel feed')
+        add(channelId, outline.getAttribute('title') || outline.getAttribute('text'))
+    })
+
+    return result
+}
 
 /**
  * Reads an array of YT channel IDs from the YT subscriptions JSON file
  *
+ * Accepts both the plain array export and the API response shape with an `items` array.
+ *
  * @param jsonContents a JSON file as a string
- * @returns the channel IDs
+ * @returns the channel IDs and the rows that couldn't be read
  */
-export function getSubsFromJson(_: string): string[] { return [] }
+export function getSubsFromJson(jsonContents: string): SubscriptionsParseResult {
+    const json = JSON.parse(stripBom(jsonContents))
+    const subscriptions: Partial<YtExportedJsonSubscription>[] | undefined = Array.isArray(json) ? json : json?.items
+    if (!Array.isArray(subscriptions)) throw new Error('The JSON file is not a YouTube subscriptions export.')
+
+    const { result, add, invalid } = createParseResult()
+    subscriptions.forEach((subscription, index) => {
+        const channelId = readChannelId(subscription?.snippet?.resourceId?.channelId)
+        if (!channelId) return invalid(index + 1, JSON.stringify(subscription) ?? '', 'Missing or malformed channel ID')
+        add(channelId, subscription.snippet?.title ?? subscription.title)
+    })
+
+    return result
+}
+
+/**
+ * Splits CSV contents into rows of fields, respecting quoted fields,
+ * escaped quotes (`""`) and both LF and CRLF line endings.
+ */
+function parseCsvRows(csvContent: string): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ''
+    let quoted = false
+
+    for (let i = 0; i < csvContent.length; i++) {
+        const char = csvContent[i]
+        if (quoted) {
+            if (char !== '"') field += char
+            else if (csvContent[i + 1] === '"') field += csvContent[++i]
+            else quoted = false
+            continue
+        }
+        switch (char) {
+            case '"': quoted = true; break
+            case ',': row.push(field); field = ''; break
+            case '\r': break
+            case '\n': row.push(field); rows.push(row); row = []; field = ''; break
+            default: field += char
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field)
+        rows.push(row)
+    }
+
+    return rows
+}
 
 /**
  * Reads an array of YT channel IDs from the YT subscriptions CSV file
  *
+ * The Takeout header is localized, so columns are guessed from the header names
+ * and, failing that, from the contents of each row.
+ *
  * @param csvContent a CSV file as a string
- * @returns the channel IDs
+ * @returns the channel IDs and the rows that couldn't be read
+ */
+export function getSubsFromCsv(csvContent: string): SubscriptionsParseResult {
+    const rows = parseCsvRows(stripBom(csvContent))
+    const { result, add, invalid } = createParseResult()
+
+    // Takeout puts the ID, URL and title columns in this order, whatever the language
+    let idColumn = 0, urlColumn = 1, titleColumn = 2
+    let firstRow = 0
+    if (rows[0] && !rows[0].some((cell) => readChannelId(cell))) {
+        firstRow = 1
+        const header = rows[0].map((cell) => cell.trim().toLowerCase())
+        const find = (pattern: RegExp, fallback: number) => {
+            const index = header.findIndex((cell) => pattern.test(cell))
+            return index >= 0 ? index : fallback
+        }
+        urlColumn = find(/url|link/, urlColumn)
+        idColumn = find(/\bid\b|[-_\s]id$/, idColumn)
+        titleColumn = find(/title|name|titel|titre|título|nome/, titleColumn)
+    }
+
+    for (let i = firstRow; i < rows.length; i++) {
+        const row = rows[i]
+        if (row.every((cell) => !cell.trim())) continue
+        const channelId = readChannelId(row[idColumn]) ?? readChannelId(row[urlColumn]) ?? row.map(readChannelId).find((id) => id)
+        if (!channelId) {
+            invalid(i + 1, row.join(','), 'No channel ID or channel URL found')
+            continue
+        }
+        add(channelId, row[titleColumn])
+    }
+
+    return result
+}
+
+/**
+ * Reads an array of YT channel IDs from a NewPipe `subscriptions.json` export
+ *
+ * Subscriptions from other NewPipe services, like SoundCloud or PeerTube, are reported as invalid rows.
+ *
+ * @param jsonContents a JSON file as a string
+ * @returns the channel IDs and the rows that couldn't be read
  */
-export function getSubsFromCsv(_: string): string[] { return [] }
+export function getSubsFromNewPipe(jsonContents: string): SubscriptionsParseResult {
+    const json: NewPipeSubscriptionsExport = JSON.parse(stripBom(jsonContents))
+    if (!Array.isArray(json?.subscriptions)) throw new Error('The JSON file is not a NewPipe subscriptions export.')
+
+    const { result, add, invalid } = createParseResult()
+    json.subscriptions.forEach((subscription, index) => {
+        if (subscription?.service_id !== NEWPIPE_YOUTUBE_SERVICE_ID) return invalid(index + 1, subscription?.url ?? '', 'Not a YouTube channel')
+        const channelId = readChannelId(subscription.url)
+        if (!channelId) return invalid(index + 1, subscription.url ?? '', 'Missing or malformed channel URL')
+        add(channelId, subscription.name)
+    })
+
+    return result
+}
+
+/**
+ * Reads an array of YT channel IDs from a FreeTube `profiles.db` or its JSON export
+ *
+ * `profiles.db` is a NeDB file, one JSON document per line where later lines update or delete
+ * earlier documents with the same `_id`. Channels subscribed in several profiles are only listed once.
+ *
+ * @param contents a `.db` file, or a JSON file with one profile or an array of them, as a string
+ * @returns the channel IDs and the rows that couldn't be read
+ */
+export function getSubsFromFreeTube(contents: string): SubscriptionsParseResult {
+    contents = stripBom(contents).trim()
+    const { result, add, invalid } = createParseResult()
+    const profiles = new Map<string, { row: number, profile: FreeTubeProfile }>()
+
+    let documents: { row: number, profile: FreeTubeProfile }[]
+    if (contents.startsWith('[')) {
+        documents = (JSON.parse(contents) as FreeTubeProfile[]).map((profile, index) => ({ row: index + 1, profile }))
+    }
+    else if (isJson(contents)) {
+        documents = [{ row: 1, profile: JSON.parse(contents) }]
+    }
+    else {
+        documents = []
+        contents.split('\n').forEach((line, index) => {
+            if (!line.trim()) return
+            try {
+                documents.push({ row: index + 1, profile: JSON.parse(line) })
+            }
+            catch {
+                invalid(index + 1, line, 'Not a valid JSON document')
+            }
+        })
+    }
+
+    documents.forEach((document, index) => profiles.set(document.profile?._id ?? `#${index}`, document))
+    for (const { row, profile } of profiles.values()) {
+        if (profile?.$$deleted) continue
+        if (!Array.isArray(profile?.subscriptions)) {
+            invalid(row, JSON.stringify(profile) ?? '', 'Not a FreeTube profile')
+            continue
+        }
+        for (const subscription of profile.subscriptions) {
+            const channelId = readChannelId(subscription?.id)
+            if (!channelId) invalid(row, JSON.stringify(subscription) ?? '', `Malformed channel ID in profile ${profile.name ?? profile._id}`)
+            else add(channelId, subscription.name)
+        }
+    }
+
+    if (profiles.size === 0 && result.invalidRows.length === 0) throw new Error('The file is not a FreeTube profiles export.')
+    return result
+}
+
+/**
+ * Reads an array of YT channel IDs from a LibreTube backup
+ *
+ * @param jsonContents a JSON file as a string
+ * @returns the channel IDs and the rows that couldn't be read
+ */
+export function getSubsFromLibreTube(jsonContents: string): SubscriptionsParseResult {
+    const json: LibreTubeBackup = JSON.parse(stripBom(jsonContents))
+    if (!Array.isArray(json?.subscriptions) && !Array.isArray(json?.localSubscriptions)) throw new Error('The JSON file is not a LibreTube backup.')
+    const subscriptions: { channelId?: string, url?: string, name?: string }[] = [...json.subscriptions ?? [], ...json.localSubscriptions ?? []]
+
+    const { result, add, invalid } = createParseResult()
+    subscriptions.forEach((subscription, index) => {
+        const channelId = readChannelId(subscription?.channelId) ?? readChannelId(subscription?.url)
+        if (!channelId) return invalid(index + 1, JSON.stringify(subscription) ?? '', 'Missing or malformed channel ID')
+        add(channelId, subscription.name)
+    })
+
+    return result
+}
+
+/**
+ * Picks the parser for a JSON subscriptions file by its shape
+ */
+function getSubsFromAnyJson(jsonContents: string): SubscriptionsParseResult {
+    const json = JSON.parse(stripBom(jsonContents))
+
+    if (Array.isArray(json)) {
+        return json.some((item) => Array.isArray(item?.subscriptions)) ? getSubsFromFreeTube(jsonContents) : getSubsFromJson(jsonContents)
+    }
+    if (Array.isArray(json?.localSubscriptions)) return getSubsFromLibreTube(jsonContents)
+    if (Array.isArray(json?.subscriptions)) {
+        if ('app_version' in json || (json.subscriptions as unknown[]).some((item) => typeof item === 'object' && item !== null && 'service_id' in item)) return getSubsFromNewPipe(jsonContents)
+        if ('_id' in json) return getSubsFromFreeTube(jsonContents)
+        return getSubsFromLibreTube(jsonContents)
+    }
+    return getSubsFromJson(jsonContents)
+}
+
+/**
+ * Tells if the CSV looks like a Takeout subscriptions file, that is its rows have a channel ID
+ * followed by the URL of the same channel. Other Takeout CSVs, like comments or the user's own channel,
+ * have channel IDs too but not in this shape.
+ */
+function isSubscriptionsCsv(csvContent: string) {
+    const rows = parseCsvRows(stripBom(csvContent)).filter((row) => row.some((cell) => cell.trim()))
+    const dataRows = rows.filter((row) => isChannelId(row[0]?.trim() ?? ''))
+    return dataRows.length > 0 && dataRows.length >= rows.length - 1 && dataRows.every((row) => readChannelId(row[1]) === row[0].trim())
+}
+
+/**
+ * Reads the YT channel IDs from the subscriptions CSV inside a Google Takeout ZIP archive
+ *
+ * Takeout localizes folder and file names, so the CSV is looked up by the English path first
+ * and then by its contents among the other CSVs of the YouTube folder.
+ *
+ * @param file a Takeout archive
+ * @returns the channel IDs and the rows that couldn't be read
+ */
+export async function getSubsFromTakeout(file: Blob): Promise<SubscriptionsParseResult> {
+    const csvEntries = (await readZipEntries(file)).filter((entry) => entry.name.toLowerCase().endsWith('.csv'))
+    const youtubeEntries = csvEntries.filter((entry) => /youtube/i.test(entry.name))
+    const candidates = youtubeEntries.length > 0 ? youtubeEntries : csvEntries
+
+    const priority = (entry: ZipEntry) => {
+        const segments = entry.name.toLowerCase().split('/')
+        const fileName = segments[segments.length - 1]
+        if (fileName === 'subscriptions.csv') return 0
+        // Localized archives keep the "<folder>/<folder>.csv" layout
+        if (fileName === `${segments[segments.length - 2]}.csv`) return 1
+        return 2
+    }
+
+    for (const entry of [...candidates].sort((a, b) => priority(a) - priority(b))) {
+        const contents = await readZipEntryText(file, entry)
+        if (priority(entry) === 0 || isSubscriptionsCsv(contents)) return getSubsFromCsv(contents)
+    }
+
+    throw new Error('No YouTube subscriptions found in this archive. If Takeout split your export into several archives, try the other parts.')
+}
+
+const zipSignature = [0x50, 0x4b, 0x03, 0x04]
+
+/**
+ * Reads the YT channel IDs from a subscriptions file, picking the parser by
+ * the file extension and falling back to sniffing the contents.
+ *
+ * @param file an OPML, JSON or CSV subscriptions export, a Takeout ZIP archive,
+ * or a NewPipe, FreeTube or LibreTube export
+ * @returns the channel IDs and the rows that couldn't be read
+ */
+export async function getSubsFromFile(file: File): Promise<SubscriptionsParseResult> {
+    const extension = file.name.split('.').pop()?.toLowerCase()
+    if (extension === 'zip') return getSubsFromTakeout(file)
+
+    const header = new Uint8Array(await getFileBuffer(file.slice(0, zipSignature.length)))
+    if (zipSignature.every((byte, i) => header[i] === byte)) return getSubsFromTakeout(file)
+
+    const contents = stripBom(await getFileContent(file))
+    if (extension === 'opml' || extension === 'xml') return getSubsFromOpml(contents)
+    if (extension === 'db') return getSubsFromFreeTube(contents)
+    if (extension === 'json') return getSubsFromAnyJson(contents)
+    if (extension === 'csv') return getSubsFromCsv(contents)
+
+    const start = contents.trimStart()
+    if (start.startsWith('<')) return getSubsFromOpml(contents)
+    // A NeDB file has one document per line, a JSON file only one
+    if (start.startsWith('{') && /}\s*\n\s*{/.test(start)) return getSubsFromFreeTube(contents)
+    if (start.startsWith('[') || start.startsWith('{')) return getSubsFromAnyJson(contents)
+    return getSubsFromCsv(contents)
+}
 
 /**
  * Extracts the channelID from a YT URL.
@@ -43,8 +432,49 @@ export function getSubsFromCsv(_: string): string[] { return [] }
  *  * /channel/*
  */
 export function getChannelId(channelURL: string) {
-    const match = channelURL.match(/channel\/([^\s?]*)/)
-    return match ? match[1] : new URL(channelURL).searchParams.get('channel_id')
+    const match = channelURL.match(/channel\/([^\s?/#]*)/)
+    if (match) return match[1]
+    try {
+        return new URL(channelURL).searchParams.get('channel_id')
+    }
+    catch {
+        return null
+    }
+}
+
+export interface YouTubeVideoLink {
+    /** The link as it appears in the text */
+    href: string
+    /** Position of the link in the text */
+    index: number
+    videoId: string
+    /** Start time in seconds, from the `t` or `start` param */
+    time: number | null
+}
+
+// watch?v=, youtu.be/, shorts/, live/ and embed/ links, with or without the scheme and subdomain
+// Not preceded by a host character, so hosts like notyoutube.com aren't taken for YT
+const youTubeVideoLinkPattern = /(?<![\w.-])(?:https?:\/\/)?(?:(?:www|m|music)\.)?(?:youtube\.com\/(?:watch\?[^\s<>"']*?\bv=|shorts\/|live\/|embed\/)|youtu\.be\/)([\w-]{11})(?![\w-])[^\s<>"'\])]*/g
+
+/**
+ * Finds every YT video link in a block of text
+ *
+ * @param text any text, e.g. a description or a list of links
+ * @returns the links in the order they appear
+ */
+export function findYouTubeVideoLinks(text: string): YouTubeVideoLink[] {
+    return Array.from(text.matchAll(youTubeVideoLinkPattern), (match) => {
+        // Punctuation right after a link belongs to the sentence around it
+        const href = match[0].replace(/[.,;:!?]+$/, '')
+        let time: number | null = null
+        try {
+            const url = new URL(href.includes('://') ? href : `https://${href}`)
+            const timeParam = url.searchParams.get('t') ?? url.searchParams.get('start') ?? url.hash.match(/t=([\dhms]+)/)?.[1]
+            if (timeParam) time = /^\d+$/.test(timeParam) ? parseInt(timeParam) : parseYouTubeURLTimeString(timeParam)
+        }
+        catch { }
+        return { href, index: match.index ?? 0, videoId: match[1], time }
+    })
 }
 
 export function parseYouTubeURLTimeString(timeString: string) {
@@ -0,0 +1,127 @@
+import { getExtensionSettingsAsync, MappingOverride, setExtensionSetting } from "../../settings"
+import { getFileContent } from "../file"
+import { isChannelId } from "."
+import type { ResolveUrlTypes, YtUrlResolveItem } from "./urlResolve"
+
+// Mappings the user set themselves, for when the resolver has a wrong one or none at all.
+// They are kept in the extension settings, so they never expire and every tab sees a change right away.
+
+const OVERRIDES_EXPORT_FORMAT = 'watch-on-odysee-overrides'
+const OVERRIDES_EXPORT_VERSION = 1
+
+export interface MappingOverridesExport {
+    format: typeof OVERRIDES_EXPORT_FORMAT
+    version: number
+    exportedAt: string
+    overrides: Record<string, MappingOverride>
+}
+
+export interface MappingOverridesImportResult {
+    /** Overrides written, replacing the ones set for the same ID */
+    imported: number
+    /** Overrides that could not be read */
+    invalid: number
+}
+
+/**
+ * Reads an Odysee link, an lbry:// URL or a path like `@channel:a/video:b`
+ * @returns the path the buttons link to, or null if it isn't one
+ */
+export function parseOdyseePath(input: string): string | null {
+    const path = input.trim()
+        .replace(/^(https?:\/\/)?(www\.)?odysee\.com\//i, '')
+        .replace(/^lbry:\/\//i, '')
+        .replace(/^\//, '')
+        .split('?')[0]
+        .replaceAll('#', ':')
+    // Paths starting with $ are Odysee's own pages, not channels or videos
+    return /^[^\s/$][^\s/]*(\/[^\s/]+)?$/.test(path) ? path : null
+}
+
+/**
+ * Reads a YT video or channel ID, or a link to one
+ * @returns null if it isn't one, handles included since they need a lookup to become an ID
+ */
+export function parseYouTubeItem(input: string): YtUrlResolveItem | null {
+    const value = input.trim()
+    let url: URL | null = null
+    try { url = new URL(value) } catch { }
+    if (!url) {
+        if (isChannelId(value)) return { id: value, type: 'channel' }
+        return /^[\w-]{11}$/.test(value) ? { id: value, type: 'video' } : null
+    }
+
+    const videoId = url.searchParams.get('v') ?? url.pathname.match(/^\/(?:shorts|live|embed)\/([\w-]{11})/)?.[1] ?? (url.hostname === 'youtu.be' ? url.pathname.slice(1) : null)
+    if (videoId && /^[\w-]{11}$/.test(videoId)) return { id: videoId, type: 'video' }
+    const channelId = url.pathname.match(/^\/channel\/(UC[\w-]{22})/)?.[1]
+    return channelId ? { id: channelId, type: 'channel' } : null
+}
+
+export async function getMappingOverrides(): Promise<Record<string, MappingOverride>> {
+    return (await getExtensionSettingsAsync()).mappingOverrides ?? {}
+}
+
+/**
+ * Sets where a YT video or channel goes on Odysee
+ * @param override where it goes, with a null `odyseePath` to never show a button for it.
+ * Null removes the override, going back to the resolver's answer.
+ */
+export async function setMappingOverride(id: string, override: { type: ResolveUrlTypes, odyseePath: string | null } | null) {
+    const overrides = { ...await getMappingOverrides() }
+    if (override) overrides[id] = { type: override.type, odyseePath: override.odyseePath, updatedAt: Date.now() }
+    else delete overrides[id]
+    await setExtensionSetting('mappingOverrides', overrides)
+}
+
+/** The IDs whose override was set, changed or removed by a storage change of `mappingOverrides` */
+export function getChangedOverrideIds(change: chrome.storage.StorageChange): string[] {
+    const previous: Record<string, MappingOverride> = change.oldValue ?? {}
+    const next: Record<string, MappingOverride> = change.newValue ?? {}
+    return [...new Set([...Object.keys(previous), ...Object.keys(next)])]
+        .filter((id) => previous[id]?.odyseePath !== next[id]?.odyseePath || !previous[id] !== !next[id])
+}
+
+export async function exportMappingOverrides(): Promise<string> {
+    const overridesExport: MappingOverridesExport = {
+        format: OVERRIDES_EXPORT_FORMAT,
+        version: OVERRIDES_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        overrides: await getMappingOverrides()
+    }
+    return JSON.stringify(overridesExport)
+}
+
+function readOverride(value: unknown): MappingOverride | null {
+    if (typeof value !== 'object' || value === null) return null
+    const { type, odyseePath, updatedAt } = value as Partial<MappingOverride>
+    if (type !== 'video' && type !== 'channel') return null
+    if (odyseePath !== null && (typeof odyseePath !== 'string' || !parseOdyseePath(odyseePath))) return null
+    return { type, odyseePath: odyseePath && parseOdyseePath(odyseePath), updatedAt: typeof updatedAt === 'number' ? updatedAt : Date.now() }
+}
+
+/**
+ * Adds the overrides of an exported file to the ones set here, the file wins for IDs in both.
+ * Throws if the file isn't an overrides export, or is from a newer version of the extension.
+ */
+export async function importMappingOverrides(file: File): Promise<MappingOverridesImportResult> {
+    let overridesExport: MappingOverridesExport
+    try { overridesExport = JSON.parse(await getFileContent(file)) } catch { throw new Error(`${file.name} is not a JSON file.`) }
+    if (overridesExport?.format !== OVERRIDES_EXPORT_FORMAT || typeof overridesExport.overrides !== 'object' || overridesExport.overrides === null) {
+        throw new Error(`${file.name} is not a Watch on Odysee overrides export.`)
+    }
+    if (overridesExport.version > OVERRIDES_EXPORT_VERSION) throw new Error(`${file.name} is from a newer version of the extension, update it to import this file.`)
+
+    const overrides = { ...await getMappingOverrides() }
+    const result: MappingOverridesImportResult = { imported: 0, invalid: 0 }
+    for (const [id, value] of Object.entries(overridesExport.overrides)) {
+        const override = readOverride(value)
+        if (!id.trim() || !override) {
+            result.invalid++
+            continue
+        }
+        overrides[id.trim()] = override
+        result.imported++
+    }
+    await setExtensionSetting('mappingOverrides', overrides)
+    return result
+}
@@ -0,0 +1,40 @@
+// A YT playlist as the content script reads it from the watch page, handed to the playlist runner page in its URL
+
+export interface PlaylistItem {
+    /** YT video ID */
+    id: string
+    title: string | null
+}
+
+export interface Playlist {
+    /** YT playlist ID, the `list` parameter */
+    listId: string
+    title: string | null
+    /** In playlist order */
+    items: PlaylistItem[]
+}
+
+const RUNNER_PAGE = 'pages/playlist/index.html'
+
+export function getPlaylistRunnerUrl(playlist: Playlist): string {
+    const url = new URL(chrome.runtime.getURL(RUNNER_PAGE))
+    url.searchParams.set('list', playlist.listId)
+    if (playlist.title) url.searchParams.set('title', playlist.title)
+    url.searchParams.set('items', JSON.stringify(playlist.items.map(({ id, title }) => [id, title])))
+    return url.href
+}
+
+/** Reads the playlist from the runner page's URL, null if it has none */
+export function readPlaylistRunnerUrl(href: string): Playlist | null {
+    const url = new URL(href)
+    const listId = url.searchParams.get('list')
+    if (!listId) return null
+    let entries: unknown
+    try { entries = JSON.parse(url.searchParams.get('items') ?? '[]') } catch { return null }
+    if (!Array.isArray(entries)) return null
+
+    const items: PlaylistItem[] = entries
+        .filter((entry): entry is [string, string | null] => Array.isArray(entry) && typeof entry[0] === 'string' && /^[\w-]{11}$/.test(entry[0]))
+        .map(([id, title]) => ({ id, title: typeof title === 'string' ? title : null }))
+    return { listId, title: url.searchParams.get('title'), items }
+}
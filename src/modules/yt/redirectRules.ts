@@ -0,0 +1,116 @@
+import type { ExtensionSettings, RedirectPageType, RedirectRule, RedirectRuleAction } from "../../settings"
+import { isChannelId } from "."
+import type { channelCache as backgroundChannelCache } from "./channelCache"
+
+// Decides what auto-redirect does on a page: the rules are tried in order and the first one that matches is used.
+// When none does, the "Auto redirect when" toggles decide as they always have.
+
+/** What the rules match a page against */
+export interface RedirectContext {
+    pageType: RedirectPageType
+    /** The channel of the page, or of its video */
+    channel: { id: string | null, handle: string | null }
+    focused: boolean
+    now: Date
+}
+
+export interface RedirectDecision {
+    action: RedirectRuleAction
+    /** Position of the rule that matched, null when the toggles decided */
+    ruleIndex: number | null
+}
+
+export const redirectPageTypeLabels: Record<RedirectPageType, string> = {
+    watch: 'Videos',
+    shorts: 'Shorts',
+    live: 'Live streams',
+    channel: 'Channels',
+}
+
+export const redirectActionLabels: Record<RedirectRuleAction, string> = {
+    redirect: 'Redirect',
+    button: 'Show a button only',
+    nothing: 'Do nothing',
+}
+
+const timePattern = /^([01]?\d|2[0-3]):([0-5]\d)$/
+
+const toMinutes = (time: string) => {
+    const [, hours, minutes] = time.match(timePattern)!
+    return Number(hours) * 60 + Number(minutes)
+}
+
+/**
+ * Reads windows written like `09:00-17:00, 22:00-06:00`
+ * @returns null if one of them isn't a window
+ */
+export function parseTimeWindows(input: string): RedirectRule['timeWindows'] | null {
+    const windows: RedirectRule['timeWindows'] = []
+    for (const part of input.split(',').map((part) => part.trim()).filter(Boolean)) {
+        const [start, end, ...rest] = part.split('-').map((time) => time.trim())
+        if (rest.length > 0 || !timePattern.test(start ?? '') || !timePattern.test(end ?? '')) return null
+        windows.push({ start, end })
+    }
+    return windows
+}
+
+export const formatTimeWindows = (windows: RedirectRule['timeWindows']) => windows.map(({ start, end }) => `${start}-${end}`).join(', ')
+
+function isInTimeWindow(window: RedirectRule['timeWindows'][number], now: Date) {
+    if (!timePattern.test(window.start) || !timePattern.test(window.end)) return false
+    const start = toMinutes(window.start)
+    const end = toMinutes(window.end)
+    const minutes = now.getHours() * 60 + now.getMinutes()
+    // The same start and end is the whole day
+    if (start === end) return true
+    return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+}
+
+async function isChannelListed(channels: string[], channel: RedirectContext['channel'], channelCache: Pick<typeof backgroundChannelCache, 'getHandle'>) {
+    for (const listed of channels) {
+        if (isChannelId(listed)) {
+            if (listed === channel.id) return true
+            continue
+        }
+        // YT handles aren't case sensitive, the channel cache keeps them lowercase too
+        const handle = listed.replace(/^@/, '').toLowerCase()
+        if (channel.handle?.replace(/^@/, '').toLowerCase() === handle) return true
+        if (channel.id && await channelCache.getHandle(handle).catch(() => null) === channel.id) return true
+    }
+    return false
+}
+
+export async function matchesRedirectRule(rule: RedirectRule, context: RedirectContext, channelCache: Pick<typeof backgroundChannelCache, 'getHandle'>) {
+    if (rule.pageTypes.length > 0 && !rule.pageTypes.includes(context.pageType)) return false
+    if (rule.focused !== null && rule.focused !== context.focused) return false
+    if (rule.timeWindows.length > 0 && !rule.timeWindows.some((window) => isInTimeWindow(window, context.now))) return false
+    if (rule.channels.length > 0 && !await isChannelListed(rule.channels, context.channel, channelCache)) return false
+    return true
+}
+
+/**
+ * @param channelCache the channel cache, or the client content scripts reach it through, to match handles to channel IDs
+ */
+export async function decideRedirect(
+    settings: Pick<ExtensionSettings, 'redirectRules' | 'redirectVideo' | 'redirectChannel'>,
+    context: RedirectContext,
+    channelCache: Pick<typeof backgroundChannelCache, 'getHandle'>
+): Promise<RedirectDecision> {
+    const rules = settings.redirectRules ?? []
+    for (let index = 0; index < rules.length; index++) {
+        if (await matchesRedirectRule(rules[index], context, channelCache)) return { action: rules[index].action, ruleIndex: index }
+    }
+    const redirect = context.pageType === 'channel' ? settings.redirectChannel : settings.redirectVideo
+    return { action: redirect ? 'redirect' : 'button', ruleIndex: null }
+}
+
+/** A line saying what the rule matches, for lists */
+export function describeRedirectRule(rule: RedirectRule) {
+    const parts = [
+        rule.pageTypes.length > 0 ? rule.pageTypes.map((pageType) => redirectPageTypeLabels[pageType]).join(', ') : 'All pages',
+        rule.channels.length > 0 ? `of ${rule.channels.join(', ')}` : null,
+        rule.focused === null ? null : rule.focused ? 'in a focused tab' : 'in a background tab',
+        rule.timeWindows.length > 0 ? `at ${formatTimeWindows(rule.timeWindows)}` : null,
+    ]
+    return parts.filter(Boolean).join(' ')
+}
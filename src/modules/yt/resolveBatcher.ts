@@ -0,0 +1,67 @@
+import { chunk } from "lodash"
+import { CachePolicy, QUERY_CHUNK_SIZE, ResolveResult, ResolveResults, resolveStatusById, YtUrlResolveItem } from "./urlResolve"
+
+// Requests arriving within this window, from any tab or frame, share the API calls
+const COALESCE_WINDOW_MS = 20
+
+interface PendingItem {
+    item: YtUrlResolveItem
+    resolve: (result: ResolveResult | null) => void
+    reject: (error: unknown) => void
+}
+
+// Queued items waiting for the window to close, per cache policy
+const queues = new Map<CachePolicy, Map<string, PendingItem>>()
+const flushTimers = new Map<CachePolicy, ReturnType<typeof setTimeout>>()
+// Every queued or requested item until it settles, so an ID is never asked for twice at the same time
+const inFlight = new Map<string, Promise<ResolveResult | null>>()
+
+function getKey(cachePolicy: CachePolicy, item: YtUrlResolveItem) {
+    return `${cachePolicy}:${item.type}:${item.id}`
+}
+
+function flush(cachePolicy: CachePolicy) {
+    clearTimeout(flushTimers.get(cachePolicy))
+    flushTimers.delete(cachePolicy)
+    const queue = queues.get(cachePolicy)
+    if (!queue) return
+    queues.delete(cachePolicy)
+
+    for (const batch of chunk([...queue.values()], QUERY_CHUNK_SIZE)) {
+        resolveStatusById(batch.map((pending) => pending.item), cachePolicy).then(
+            (results) => { for (const pending of batch) pending.resolve(results[pending.item.id] ?? null) },
+            (error) => { for (const pending of batch) pending.reject(error) }
+        )
+    }
+}
+
+function request(item: YtUrlResolveItem, cachePolicy: CachePolicy): Promise<ResolveResult | null> {
+    const key = getKey(cachePolicy, item)
+    const existing = inFlight.get(key)
+    if (existing) return existing
+
+    let queue = queues.get(cachePolicy)
+    if (!queue) queues.set(cachePolicy, queue = new Map())
+    const promise = new Promise<ResolveResult | null>((resolve, reject) => queue!.set(key, { item, resolve, reject }))
+    const settle = () => { inFlight.delete(key) }
+    promise.then(settle, settle)
+    inFlight.set(key, promise)
+
+    if (queue.size >= QUERY_CHUNK_SIZE) flush(cachePolicy)
+    else if (!flushTimers.has(cachePolicy)) flushTimers.set(cachePolicy, setTimeout(() => flush(cachePolicy), COALESCE_WINDOW_MS))
+    return promise
+}
+
+/**
+ * Same as `resolveStatusById`, but merges concurrent requests into shared batches.
+ * IDs already being resolved are awaited instead of requested again, and the caller gets only its own results.
+ */
+export async function batchResolveById(params: YtUrlResolveItem[], cachePolicy: CachePolicy = 'cache-first'): Promise<ResolveResults> {
+    const answers = await Promise.all(params.map((item) => request(item, cachePolicy)))
+    const results: ResolveResults = {}
+    params.forEach((item, index) => {
+        const answer = answers[index]
+        if (answer) results[item.id] = answer
+    })
+    return results
+}
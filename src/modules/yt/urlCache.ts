@@ -1,85 +1,109 @@
 import { logger } from "../logger"
+import { addLastAccessIndex, createTtlObjectStore, openTtlDatabase } from "../ttlStore"
+import { createMemoryCache } from "../ttlStore/memoryCache"
+import { DEFAULT_SETTINGS } from "../../settings"
+import { bindCacheSettings, getCacheLifetimes, urlCacheTtlSettings } from "./cacheSettings"
 // This should only work in extension contexts (pages or service worker)
 if (typeof chrome === 'undefined' || typeof chrome.runtime === 'undefined') {
     throw new Error("YT urlCache can only be accessed from extension windows and service workers.")
 }
 
-let db = new Promise<IDBDatabase>((resolve, reject) => {
-    if (typeof self.indexedDB !== 'undefined') {
-        const openRequest = indexedDB.open("yt-url-resolver-cache")
-        openRequest.addEventListener('upgradeneeded', () => openRequest.result.createObjectStore("store").createIndex("expireAt", "expireAt"))
-        openRequest.addEventListener('success', () => {
-            resolve(openRequest.result)
-            clearExpired()
-        }, { once: true })
+/** Why an ID couldn't be looked up, the resolver failed or turned the request down */
+export type UrlCacheFailure = 'error' | 'rate-limited'
+
+// Lookups that failed are only remembered long enough to not hammer a failing resolver
+const FAILURE_TTL = 2 * 60 * 1000
+
+// Maps YT video and channel IDs → Odysee path, null when there is no odysee path
+const { stores, clearAll: clearAllStores } = openTtlDatabase<{ store: string, failures: UrlCacheFailure }>({
+    name: "yt-url-resolver-cache",
+    version: 3,
+    stores: {
+        store: {
+            // Until the settings are read
+            ...getCacheLifetimes(DEFAULT_SETTINGS, urlCacheTtlSettings),
+            // Expired entries are kept around this long, so stale-while-revalidate can still answer with them
+            staleRetention: 30 * 24 * 60 * 60 * 1000
+        },
+        // Maps YT IDs → why their last lookup failed, kept apart so a failure never replaces a known answer
+        failures: { hitTtl: FAILURE_TTL, missTtl: FAILURE_TTL }
+    },
+    migrations: {
+        // Version 1 is what the unversioned open used to create, so existing caches upgrade from there
+        1: (database) => createTtlObjectStore(database, "store"),
+        2: (_database, transaction) => addLastAccessIndex(transaction, "store"),
+        3: (database, transaction) => {
+            createTtlObjectStore(database, "failures")
+            addLastAccessIndex(transaction, "failures")
+        }
     }
-    else reject(`IndexedDB not supported`)
 })
 
-async function clearExpired() {
-    return new Promise<void>(async (resolve, reject) => {
-        const transaction = (await db).transaction("store", "readwrite")
-        const range = IDBKeyRange.upperBound(new Date())
-
-        const expireAtCursorRequest = transaction.objectStore("store").index("expireAt").openCursor(range)
-        expireAtCursorRequest.addEventListener('error', () => reject(expireAtCursorRequest.error))
-        expireAtCursorRequest.addEventListener('success', () => {
-            try {
-                const expireCursor = expireAtCursorRequest.result
-                if (!expireCursor) return
-                expireCursor.delete()
-                expireCursor.continue()
-                resolve()
-            }
-            catch (ex) {
-                reject(ex)
-            }
-        })
-    })
+// Listing pages ask for hundreds of IDs at once, and often the same ones again seconds later.
+// Only the background resolves, so it's made on first use there and extension pages never hold a copy of their own,
+// they change the cache through the background instead, see urlCacheClient.
+const createUrlMemoryCache = () => createMemoryCache(stores.store, {
+    maxEntries: 5000,
+    maxAge: 5 * 60 * 1000,
+    writeDelay: 100
+})
+let memoryCache: ReturnType<typeof createUrlMemoryCache> | null = null
+function getMemoryCache() {
+    if (!memoryCache) memoryCache = createUrlMemoryCache()
+    return memoryCache
 }
+// Memory holds the expiry entries had when they were read
+bindCacheSettings([stores.store], urlCacheTtlSettings, () => memoryCache?.invalidate())
 
-async function clearAll() {
-    return await new Promise<void>(async (resolve, reject) => {
-        const store = (await db).transaction("store", "readwrite").objectStore("store")
-        if (!store) return resolve()
-        const request = store.clear()
-        request.addEventListener('success', () => resolve())
-        request.addEventListener('error', () => reject(request.error))
-    })
+/** Caches the Odysee path of the ID, written back to IndexedDB shortly after */
+const put = (url: string | null, id: string) => getMemoryCache().put(id, url)
+
+/** Same as the store's, but answered from memory when possible */
+const getEntries = (ids: string[]) => getMemoryCache().getEntries(ids)
+
+/**
+ * Remembers that the lookup of the IDs failed, until the resolver said to retry or for a couple of minutes
+ * @returns when the IDs are worth looking up again
+ */
+function putFailures(ids: string[], failure: UrlCacheFailure, retryAt = Date.now() + FAILURE_TTL) {
+    const expireAt = new Date(retryAt)
+    stores.failures.merge(ids.map((id) => ({ key: id, value: failure, expireAt })))
+        .catch((error) => logger.warn('Could not cache the failed lookups', error))
+    return retryAt
 }
 
-async function put(url: string | null, id: string): Promise<void> {
-    return await new Promise(async (resolve, reject) => {
-        const store = (await db).transaction("store", "readwrite").objectStore("store")
-        if (!store) return resolve()
-        const expireAt = !url ? new Date(Date.now() + 1 * 60 * 60 * 1000) : new Date(Date.now() + 15 * 24 * 60 * 60 * 1000)
-        const request = store.put({ value: url, expireAt }, id)
-        logger.debug('caching', id, url, 'until:', expireAt)
-        request.addEventListener('success', () => resolve())
-        request.addEventListener('error', () => reject(request.error))
+/** The recent failures among the IDs, with when they run out */
+async function getFailures(ids: string[]): Promise<Map<string, { failure: UrlCacheFailure, expireAt: Date }>> {
+    const failures = new Map<string, { failure: UrlCacheFailure, expireAt: Date }>()
+    if (ids.length === 0) return failures
+    const entries = await stores.failures.getMany(ids)
+    const now = new Date()
+    ids.forEach((id, index) => {
+        const entry = entries[index]
+        if (entry?.value && entry.expireAt > now) failures.set(id, { failure: entry.value, expireAt: entry.expireAt })
     })
+    return failures
 }
 
-// string means there is cache of odysee path
-// null means there is cache of that id has no odysee path
-// undefined means there is no cache
-async function get(id: string): Promise<string | null | undefined> {
-    const response = (await new Promise(async (resolve, reject) => {
-        const store = (await db).transaction("store", "readonly").objectStore("store")
-        if (!store) return reject(`Can't find object store.`)
+async function clearAll() {
+    await memoryCache?.clear()
+    await clearAllStores()
+}
 
-        const request = store.get(id)
-        request.addEventListener('success', () => resolve(request.result))
-        request.addEventListener('error', () => reject(request.error))
-    }) as { value: string | null, expireAt: Date } | undefined)
+/** Deletes the IDs from the cache, memory included */
+async function deleteEntries(ids: string[]) {
+    await memoryCache?.remove(ids)
+    for (const id of ids) await stores.store.delete(id)
+}
 
-    if (response === undefined) return undefined
-    if (response.expireAt <= new Date()) {
-        await clearExpired()
-        return undefined
-    }
-    return response.value
+/** Rereads everything from IndexedDB, after it was written to past the memory, e.g. by an import */
+async function invalidate() {
+    memoryCache?.invalidate()
 }
 
-export const odyseeUrlCache = { put, get, clearAll }
+/** Writes the answers held in memory to IndexedDB now */
+async function flush() {
+    await memoryCache?.flush()
+}
 
+export const odyseeUrlCache = { put, getEntries, putFailures, getFailures, get: stores.store.get, getEntry: stores.store.getEntry, clearAll, deleteEntries, invalidate, flush, store: stores.store }
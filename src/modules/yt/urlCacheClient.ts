@@ -0,0 +1,26 @@
+import type { odyseeUrlCache as backgroundUrlCache } from "./urlCache"
+
+// The background keeps the URL cache's memory layer, extension pages change the cache through it.
+// Written to IndexedDB straight from a page, the background would go on answering from memory.
+
+type UrlCache = typeof backgroundUrlCache
+/** The URL cache methods the background answers `urlCache` messages for */
+export type UrlCacheMethod = 'clearAll' | 'deleteEntries' | 'invalidate' | 'flush'
+export const urlCacheMethods: UrlCacheMethod[] = ['clearAll', 'deleteEntries', 'invalidate', 'flush']
+
+function call<M extends UrlCacheMethod>(method: M, ...args: Parameters<UrlCache[M]>): Promise<void> {
+    return new Promise((resolve, reject) => {
+        chrome.runtime.sendMessage({ method: 'urlCache', data: JSON.stringify({ method, args }) }, (response: string | undefined) => {
+            if (chrome.runtime.lastError) return reject(new Error(chrome.runtime.lastError.message))
+            if (!response || response.startsWith('error:')) return reject(new Error(`Background error. ${response ?? ''}`))
+            resolve()
+        })
+    })
+}
+
+export const odyseeUrlCache: Pick<UrlCache, UrlCacheMethod> = {
+    clearAll: (...args) => call('clearAll', ...args),
+    deleteEntries: (...args) => call('deleteEntries', ...args),
+    invalidate: (...args) => call('invalidate', ...args),
+    flush: (...args) => call('flush', ...args),
+}
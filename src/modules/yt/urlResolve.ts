@@ -1,14 +1,41 @@
 import { chunk } from "lodash"
-import { getExtensionSettingsAsync, ytUrlResolversSettings } from "../../settings"
-import { odyseeUrlCache } from "./urlCache"
+import { DEFAULT_SETTINGS, ExtensionSettings, getExtensionSettingsAsync, getYtUrlResolver, YTUrlResolver, YTUrlResolverName } from "../../settings"
+import { logger } from "../logger"
+import { canRequest, getRetryAt, publishCircuitState, recordFailure, recordSuccess, ResolverUnavailableError } from "./circuitBreaker"
+import { odyseeUrlCache, UrlCacheFailure } from "./urlCache"
 
-const QUERY_CHUNK_SIZE = 100
+export const QUERY_CHUNK_SIZE = 100
+const MAX_CONCURRENT_CHUNKS = 4
 
 export type ResolveUrlTypes = 'video' | 'channel'
 export type YtUrlResolveItem = { type: ResolveUrlTypes, id: string }
-type Results = Record<string, YtUrlResolveItem>
+export type CachePolicy = 'cache-first' | 'network-only' | 'cache-only' | 'stale-while-revalidate'
 type Paramaters = YtUrlResolveItem[]
 
+/**
+ * What the lookup of an ID came to:
+ *  - `mapped` it's on Odysee, at `target`
+ *  - `not-found` the resolver answered, it isn't on Odysee
+ *  - `error` the resolver failed or couldn't be reached
+ *  - `rate-limited` the resolver turned the request down, or is cooling down
+ * Failed lookups are worth trying again from `retryAt` on.
+ */
+export type ResolveStatus = 'mapped' | 'not-found' | UrlCacheFailure
+export type ResolveFailure = { status: UrlCacheFailure, retryAt: number }
+export type ResolveResult =
+    | { status: 'mapped', target: YtUrlResolveItem }
+    | { status: 'not-found' }
+    | ResolveFailure
+export type ResolveResults = Record<string, ResolveResult>
+
+/** The resolver that answered the last request, `failedOver` when it wasn't the selected one */
+export interface UrlResolverAnswer {
+    name: YTUrlResolverName
+    displayName: string
+    failedOver: boolean
+    at: number
+}
+
 interface ApiResponse {
     data: {
         channels?: Record<string, string>
@@ -16,122 +43,332 @@ interface ApiResponse {
     }
 }
 
-export async function resolveById(params: Paramaters, progressCallback?: (progress: number) => void): Promise<Results> {
-    const { urlResolver: urlResolverSettingName } = await getExtensionSettingsAsync()
-    const urlResolverSetting = ytUrlResolversSettings[urlResolverSettingName]
+/**
+ * Lists the resolvers to try, in order: the selected one first, then the fallbacks.
+ * Removed custom resolvers are skipped, and the default one is used if nothing else is left.
+ */
+function getUrlResolverChain(settings: ExtensionSettings): [YTUrlResolverName, YTUrlResolver][] {
+    const names = [...new Set([settings.urlResolver, ...(settings.urlResolverFallbacks ?? [])])]
+    const chain = names
+        .map((name) => [name, getYtUrlResolver(settings, name)] as const)
+        .filter((entry): entry is [YTUrlResolverName, YTUrlResolver] => !!entry[1])
+    return chain.length > 0 ? chain : [[DEFAULT_SETTINGS.urlResolver, getYtUrlResolver(settings, DEFAULT_SETTINGS.urlResolver)!]]
+}
 
-    async function requestChunk(params: Paramaters) {
-        const results: Results = {}
-
-        // Check for cache first, add them to the results if there are any cache
-        // And remove them from the params, so we dont request for them
-        params = (await Promise.all(params.map(async (item) => {
-            const cachedOdyseeUrl = await odyseeUrlCache.get(item.id)
-
-            // Cache can be null, if there is no odysee url yet
-            if (cachedOdyseeUrl !== undefined) {
-                // Null values shouldn't be in the results
-                if (cachedOdyseeUrl !== null) results[item.id] = { id: cachedOdyseeUrl, type: item.type }
-                return null
-            }
+let lastReportedAnswer: { key: string, at: number } | null = null
+
+/** Stores which resolver answered last, so the popup can show it */
+function reportAnsweredResolver(name: YTUrlResolverName, resolver: YTUrlResolver, failedOver: boolean) {
+    const key = `${name}:${failedOver}`
+    // Same answer as before, only refresh the timestamp once in a while to spare the storage writes
+    if (lastReportedAnswer?.key === key && Date.now() - lastReportedAnswer.at < 60 * 1000) return
+    lastReportedAnswer = { key, at: Date.now() }
+    const answer: UrlResolverAnswer = { name, displayName: resolver.name, failedOver, at: Date.now() }
+    try { chrome.storage.local.set({ wolLastUrlResolverAnswer: answer }) } catch { }
+}
+
+const MAX_ATTEMPTS = 3
+const BACKOFF_BASE_MS = 500
+// A longer Retry-After opens the resolver's circuit instead of holding the chunk
+const MAX_RETRY_AFTER_MS = 30 * 1000
 
-            // No cache found
-            return item
-        }))).filter((o) => o) as Paramaters
-
-        if (params.length === 0) return results
-
-        const url = new URL(`${urlResolverSetting.href}`)
-        // Ensure we append "/resolve" to the configured base path without
-        // using Node's path.join (which can drop the base path when the
-        // second segment starts with "/"). This guarantees
-        // https://api.odysee.com/yt -> https://api.odysee.com/yt/resolve
-        // and https://api.odysee.com/yt/ -> https://api.odysee.com/yt/resolve
-        const basePath = url.pathname.endsWith('/') ? url.pathname.slice(0, -1) : url.pathname
-        url.pathname = `${basePath}/resolve`
-        url.searchParams.set('video_ids', params.filter((item) => item.type === 'video').map((item) => item.id).join(','))
-        url.searchParams.set('channel_ids', params.filter((item) => item.type === 'channel').map((item) => item.id).join(','))
-
-        const controller = new AbortController()
-        // 5 second timeout:
-        const timeoutId = setTimeout(() => controller.abort(), 5000)
-        const apiResponse = await fetch(url.toString(), { cache: 'no-store', signal: controller.signal })
+type AttemptResult =
+    | { ok: true, response: ApiResponse | null }
+    | { ok: false, error: unknown, retryAfter: number | null }
+
+/**
+ * @param value a `Retry-After` header, either seconds or an HTTP date
+ * @returns the delay in milliseconds, or null if there is none
+ */
+function parseRetryAfter(value: string | null): number | null {
+    if (!value) return null
+    const seconds = Number(value)
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+    const date = Date.parse(value)
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/** Full jitter, so tabs that failed together don't retry together */
+function getBackoffDelay(attempt: number) {
+    return Math.random() * BACKOFF_BASE_MS * 2 ** attempt
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/** A resolver answered with an error status */
+class ResolverResponseError extends Error {
+    constructor(readonly resolverName: string, readonly status: number) {
+        super(`Resolver ${resolverName} responded with ${status}`)
+    }
+}
+
+/**
+ * Sends a single request for the chunk.
+ * Timeouts, network errors, 429 and 5xx responses are failures worth retrying,
+ * other non-OK responses are final and resolve to a null response.
+ */
+async function requestChunkOnce(urlResolverSetting: YTUrlResolver, params: Paramaters): Promise<AttemptResult> {
+    const controller = new AbortController()
+    // 5 second timeout:
+    const timeoutId = setTimeout(() => controller.abort(), 5000)
+    try {
+        const [resource, init] = getResolveRequest(urlResolverSetting, params)
+        const apiResponse = await fetch(resource, { ...init, signal: controller.signal })
+        if (apiResponse.status === 429 || apiResponse.status >= 500) {
+            return {
+                ok: false,
+                error: new ResolverResponseError(urlResolverSetting.name, apiResponse.status),
+                retryAfter: apiResponse.status === 429 ? parseRetryAfter(apiResponse.headers.get('Retry-After')) : null
+            }
+        }
+        if (!apiResponse.ok) return { ok: true, response: null }
+        return { ok: true, response: await apiResponse.json() }
+    }
+    catch (error) {
+        return { ok: false, error, retryAfter: null }
+    }
+    finally {
         clearTimeout(timeoutId)
-        
-        if (apiResponse.ok) {
-            const response: ApiResponse = await apiResponse.json()
-            for (const item of params) {
-                const odyseeUrl = (item.type === 'channel' ? response.data.channels : response.data.videos)?.[item.id]?.replaceAll('#', ':') ?? null
-                // we cache it no matter if its null or not
-                await odyseeUrlCache.put(odyseeUrl, item.id)
-
-                if (odyseeUrl) results[item.id] = { id: odyseeUrl, type: item.type }
+    }
+}
+
+/**
+ * Requests a chunk from each resolver of the chain until one answers.
+ * Each resolver gets a few attempts with backoff before moving on to the next one,
+ * and resolvers whose circuit is open are skipped.
+ *
+ * @returns the response, or null if the chunk couldn't be resolved
+ * @throws ResolverUnavailableError when every resolver is cooling down
+ */
+async function fetchChunk(chain: [YTUrlResolverName, YTUrlResolver][], params: Paramaters): Promise<ApiResponse | null> {
+    let lastError: unknown = null
+    let attempted = false
+
+    for (const [index, [name, urlResolverSetting]] of chain.entries()) {
+        if (!canRequest(name)) continue
+        attempted = true
+
+        for (let attempt = 1; ; attempt++) {
+            const result = await requestChunkOnce(urlResolverSetting, params)
+            if (result.ok) {
+                recordSuccess(name)
+                publishCircuitState(null)
+                if (result.response) reportAnsweredResolver(name, urlResolverSetting, index > 0)
+                return result.response
+            }
+
+            lastError = result.error
+            if (result.retryAfter !== null && result.retryAfter > MAX_RETRY_AFTER_MS) {
+                recordFailure(name, Date.now() + result.retryAfter)
+                break
             }
+            if (attempt >= MAX_ATTEMPTS) {
+                recordFailure(name)
+                break
+            }
+            const delay = result.retryAfter ?? getBackoffDelay(attempt)
+            logger.warn(`Resolver ${urlResolverSetting.name} failed, retrying in ${Math.round(delay)}ms`, result.error)
+            await sleep(delay)
         }
+        logger.warn(`Resolver ${urlResolverSetting.name} failed, trying the next one`, lastError)
+    }
+
+    const retryAt = getRetryAt(chain.map(([name]) => name))
+    if (retryAt > Date.now()) publishCircuitState(retryAt)
+    // Nothing attempted while a trial request is still in flight, check back shortly
+    if (!attempted || retryAt > Date.now()) throw new ResolverUnavailableError(Math.max(retryAt, Date.now() + 5000))
+    throw lastError
+}
 
-        return results
+function getResolveUrl(urlResolverSetting: YTUrlResolver, params: Paramaters) {
+    const url = new URL(`${urlResolverSetting.href}`)
+    // Ensure we append "/resolve" to the configured base path without
+    // using Node's path.join (which can drop the base path when the
+    // second segment starts with "/"). This guarantees
+    // https://api.odysee.com/yt -> https://api.odysee.com/yt/resolve
+    // and https://api.odysee.com/yt/ -> https://api.odysee.com/yt/resolve
+    const basePath = url.pathname.endsWith('/') ? url.pathname.slice(0, -1) : url.pathname
+    url.pathname = `${basePath}/resolve`
+    url.searchParams.set('video_ids', params.filter((item) => item.type === 'video').map((item) => item.id).join(','))
+    url.searchParams.set('channel_ids', params.filter((item) => item.type === 'channel').map((item) => item.id).join(','))
+    return url
+}
+
+// Longer URLs get cut or refused by some servers and proxies
+const MAX_GET_URL_LENGTH = 2000
+
+/**
+ * Builds the fetch arguments for a chunk. The IDs go in the query string,
+ * or in a form body when the resolver supports POST and the URL would get too long.
+ */
+function getResolveRequest(urlResolverSetting: YTUrlResolver, params: Paramaters, forcePost = false): [string, RequestInit] {
+    const url = getResolveUrl(urlResolverSetting, params)
+    if (!urlResolverSetting.supportsPost || (!forcePost && url.href.length <= MAX_GET_URL_LENGTH)) return [url.href, { cache: 'no-store' }]
+
+    const body = new URLSearchParams(url.searchParams)
+    url.search = ''
+    return [url.href, { method: 'POST', body, cache: 'no-store' }]
+}
+
+// Any well formed channel ID does, only the shape of the response is checked
+const TEST_RESOLVE_ITEM: YtUrlResolveItem = { type: 'channel', id: 'UCGVmkRy1jQ9KqdB8QCwKmPg' }
+
+/**
+ * Sends a test resolve to a resolver, without touching the cache.
+ * Throws with a readable message if the resolver can't be reached or doesn't answer like the Odysee API.
+ */
+export async function testYtUrlResolver(urlResolverSetting: YTUrlResolver): Promise<void> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), 5000)
+    try {
+        // POST is always used when the resolver claims to support it, so the claim gets tested too
+        const [resource, init] = getResolveRequest(urlResolverSetting, [TEST_RESOLVE_ITEM], true)
+        const apiResponse = await fetch(resource, { ...init, signal: controller.signal })
+        if (!apiResponse.ok) throw new Error(`Resolver responded with ${apiResponse.status} ${apiResponse.statusText}`)
+        const response: ApiResponse = await apiResponse.json().catch(() => { throw new Error('Resolver did not respond with JSON') })
+        if (typeof response?.data !== 'object' || response.data === null) throw new Error('Resolver response has no "data" object')
+    }
+    catch (error) {
+        if (controller.signal.aborted) throw new Error('Resolver did not respond in 5 seconds')
+        throw error
     }
+    finally {
+        clearTimeout(timeoutId)
+    }
+}
 
-    const results: Results = {}
-    const chunks = chunk(params, QUERY_CHUNK_SIZE)
+function toFailures(params: Paramaters, error: unknown): ResolveResults {
+    let result: ResolveResult
+    if (error instanceof ResolverUnavailableError) {
+        result = { status: 'rate-limited', retryAt: odyseeUrlCache.putFailures(params.map((item) => item.id), 'rate-limited', error.retryAt) }
+    } else {
+        const status = error instanceof ResolverResponseError && error.status === 429 ? 'rate-limited' : 'error'
+        result = { status, retryAt: odyseeUrlCache.putFailures(params.map((item) => item.id), status) }
+    }
+    return Object.fromEntries(params.map((item) => [item.id, result]))
+}
 
-    let i = 0
-    if (progressCallback) progressCallback(0)
-    for (const chunk of chunks) {
-        if (progressCallback) progressCallback(++i / (chunks.length + 1))
-        Object.assign(results, await requestChunk(chunk))
+/**
+ * Resolves a chunk from the network and caches every answer, the misses included.
+ * A failed request doesn't fail the chunk, its IDs come back as `error` or `rate-limited` instead.
+ */
+async function fetchAndCache(chain: [YTUrlResolverName, YTUrlResolver][], params: Paramaters): Promise<ResolveResults> {
+    const results: ResolveResults = {}
+    if (params.length === 0) return results
+
+    let response: ApiResponse | null
+    try {
+        response = await fetchChunk(chain, params)
+    } catch (error) {
+        return toFailures(params, error)
+    }
+    if (!response) return toFailures(params, new Error('Resolver refused the request'))
+
+    for (const item of params) {
+        const odyseeUrl = (item.type === 'channel' ? response.data.channels : response.data.videos)?.[item.id]?.replaceAll('#', ':') ?? null
+        // we cache it no matter if its null or not
+        odyseeUrlCache.put(odyseeUrl, item.id)
+
+        results[item.id] = odyseeUrl ? { status: 'mapped', target: { id: odyseeUrl, type: item.type } } : { status: 'not-found' }
     }
 
-    if (progressCallback) progressCallback(1)
     return results
 }
 
-// Force network resolve for given ids, bypassing local cache reads.
-// Writes fresh results back into the cache after a successful fetch.
-export async function resolveByIdForce(params: Paramaters, progressCallback?: (progress: number) => void): Promise<Results> {
-    const { urlResolver: urlResolverSettingName } = await getExtensionSettingsAsync()
-    const urlResolverSetting = ytUrlResolversSettings[urlResolverSettingName]
+// IDs with a background refresh in flight, so repeated stale reads don't refresh them again
+const revalidating = new Set<string>()
 
-    async function requestChunkForce(params: Paramaters) {
-        const results: Results = {}
+function revalidateInBackground(chain: [YTUrlResolverName, YTUrlResolver][], params: Paramaters) {
+    params = params.filter((item) => !revalidating.has(item.id))
+    if (params.length === 0) return
+    for (const item of params) revalidating.add(item.id)
 
-        if (params.length === 0) return results
+    ;(async () => {
+        for (const part of chunk(params, QUERY_CHUNK_SIZE)) await fetchAndCache(chain, part)
+    })()
+        .catch((error) => logger.warn('Background revalidation failed', error))
+        .finally(() => { for (const item of params) revalidating.delete(item.id) })
+}
 
-        const url = new URL(`${urlResolverSetting.href}`)
-        const basePath = url.pathname.endsWith('/') ? url.pathname.slice(0, -1) : url.pathname
-        url.pathname = `${basePath}/resolve`
-        url.searchParams.set('video_ids', params.filter((item) => item.type === 'video').map((item) => item.id).join(','))
-        url.searchParams.set('channel_ids', params.filter((item) => item.type === 'channel').map((item) => item.id).join(','))
+/**
+ * Looks up YT video and channel IDs on Odysee, with the outcome for each of them.
+ * The user's own mappings come first, whatever the cache policy.
+ *
+ * @param cachePolicy how the cache is used:
+ *  - `cache-first` answers from fresh cache entries and fetches the rest
+ *  - `network-only` doesn't read the cache, but still writes the answers to it
+ *  - `cache-only` never fetches, IDs without a fresh cache entry are left out
+ *  - `stale-while-revalidate` answers from expired entries too, and refreshes those in the background
+ * @param progressCallback called with the resolve progress, from 0 to 1
+ */
+export async function resolveStatusById(params: Paramaters, cachePolicy: CachePolicy = 'cache-first', progressCallback?: (progress: number) => void): Promise<ResolveResults> {
+    const settings = await getExtensionSettingsAsync()
+    const chain = cachePolicy === 'cache-only' ? [] : getUrlResolverChain(settings)
+    const stale: Paramaters = []
 
-        const controller = new AbortController()
-        const timeoutId = setTimeout(() => controller.abort(), 5000)
-        const apiResponse = await fetch(url.toString(), { cache: 'no-store', signal: controller.signal })
-        clearTimeout(timeoutId)
+    const overridden: ResolveResults = {}
+    params = params.filter((item) => {
+        const override = settings.mappingOverrides?.[item.id]
+        if (!override) return true
+        overridden[item.id] = override.odyseePath ? { status: 'mapped', target: { id: override.odyseePath, type: item.type } } : { status: 'not-found' }
+        return false
+    })
 
-        if (apiResponse.ok) {
-            const response: ApiResponse = await apiResponse.json()
-            for (const item of params) {
-                const odyseeUrl = (item.type === 'channel' ? response.data.channels : response.data.videos)?.[item.id]?.replaceAll('#', ':') ?? null
-                // Update cache with the fresh value (including null)
-                await odyseeUrlCache.put(odyseeUrl, item.id)
+    async function requestChunk(params: Paramaters) {
+        const results: ResolveResults = {}
 
-                if (odyseeUrl) results[item.id] = { id: odyseeUrl, type: item.type }
-            }
+        // Add the cached ones to the results, and remove them from the params, so we dont request for them
+        if (cachePolicy !== 'network-only') {
+            const cachedEntries = await odyseeUrlCache.getEntries(params.map((item) => item.id))
+            params = params.filter((item) => {
+                const cached = cachedEntries.get(item.id)
+                if (!cached || (cached.expired && cachePolicy !== 'stale-while-revalidate')) return true
+
+                results[item.id] = cached.value !== null ? { status: 'mapped', target: { id: cached.value, type: item.type } } : { status: 'not-found' }
+                if (cached.expired) stale.push(item)
+                return false
+            })
+
+            // IDs whose lookup failed a moment ago aren't asked for again until they're due
+            const failures = await odyseeUrlCache.getFailures(params.map((item) => item.id))
+            params = params.filter((item) => {
+                const failure = failures.get(item.id)
+                if (!failure) return true
+                results[item.id] = { status: failure.failure, retryAt: failure.expireAt.getTime() }
+                return false
+            })
         }
 
-        return results
+        if (cachePolicy === 'cache-only') return results
+        return Object.assign(results, await fetchAndCache(chain, params))
     }
 
-    const results: Results = {}
     const chunks = chunk(params, QUERY_CHUNK_SIZE)
+    // Kept per chunk, so the results come out in the order of the params whatever order the chunks finish in
+    const chunkResults: ResolveResults[] = []
+    let nextChunk = 0
+    let finishedChunks = 0
+    let failed = false
 
-    let i = 0
-    if (progressCallback) progressCallback(0)
-    for (const chunk of chunks) {
-        if (progressCallback) progressCallback(++i / (chunks.length + 1))
-        Object.assign(results, await requestChunkForce(chunk))
+    async function worker() {
+        while (nextChunk < chunks.length && !failed) {
+            const index = nextChunk++
+            try {
+                chunkResults[index] = await requestChunk(chunks[index])
+            } catch (error) {
+                failed = true
+                throw error
+            }
+            if (progressCallback) progressCallback(++finishedChunks / chunks.length)
+        }
     }
 
+    if (progressCallback) progressCallback(0)
+    await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_CHUNKS, chunks.length) }, worker))
+    const results: ResolveResults = Object.assign({}, overridden, ...chunkResults)
+
+    if (stale.length > 0) revalidateInBackground(chain, stale)
+
     if (progressCallback) progressCallback(1)
     return results
 }
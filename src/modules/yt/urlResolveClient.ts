@@ -0,0 +1,39 @@
+import { logger } from "../logger"
+import type { CachePolicy, ResolveResults, YtUrlResolveItem } from "./urlResolve"
+
+// Extension pages resolve through the background like content scripts do,
+// so every lookup shares its batches, its cache's memory layer and its resolver circuit breaker.
+
+// A few of the background's chunks at a time, so the progress moves on long lists
+const PART_SIZE = 400
+
+function request(items: YtUrlResolveItem[], cachePolicy: CachePolicy): Promise<ResolveResults> {
+    return new Promise((resolve, reject) => {
+        chrome.runtime.sendMessage({ method: 'resolveUrl', data: JSON.stringify([items, cachePolicy]) }, (response: string | undefined) => {
+            if (chrome.runtime.lastError) return reject(new Error(chrome.runtime.lastError.message))
+            if (!response || response.startsWith('error:')) return reject(new Error(`Background error. ${response ?? ''}`))
+            resolve(JSON.parse(response))
+        })
+    })
+}
+
+/**
+ * Same as `resolveStatusById`, answered by the background.
+ * A part the background couldn't answer doesn't fail the others, its IDs come back as `error`.
+ */
+export async function resolveStatusById(params: YtUrlResolveItem[], cachePolicy: CachePolicy = 'cache-first', progressCallback?: (progress: number) => void): Promise<ResolveResults> {
+    const results: ResolveResults = {}
+    if (progressCallback) progressCallback(0)
+    for (let start = 0; start < params.length; start += PART_SIZE) {
+        const part = params.slice(start, start + PART_SIZE)
+        try {
+            Object.assign(results, await request(part, cachePolicy))
+        } catch (error) {
+            logger.error(error)
+            for (const item of part) results[item.id] = { status: 'error', retryAt: Date.now() }
+        }
+        if (progressCallback) progressCallback(Math.min(1, (start + PART_SIZE) / params.length))
+    }
+    if (progressCallback) progressCallback(1)
+    return results
+}
@@ -1,2 +1,182 @@
-// Subscription converter removed
-export {}
+import { h, render } from 'preact'
+import { useState } from 'preact/hooks'
+import { findYouTubeVideoLinks, YouTubeVideoLink } from '../../modules/yt'
+import type { ResolveResults } from '../../modules/yt/urlResolve'
+import { resolveStatusById } from '../../modules/yt/urlResolveClient'
+import { logger } from '../../modules/logger'
+import { targetPlatformSettings, useExtensionSettings } from '../../settings'
+
+type LinkStatus = 'converted' | 'not-found' | 'failed'
+
+interface ConvertedLink extends YouTubeVideoLink {
+  status: LinkStatus
+  odyseeUrl: string | null
+}
+
+interface ConversionResult {
+  /** The text as it was pasted */
+  input: string
+  text: string
+  links: ConvertedLink[]
+  statuses: ResolveResults
+}
+
+function getOdyseeUrl(domainPrefix: string, odyseePathname: string, time: number | null) {
+  const url = new URL(`${domainPrefix}${odyseePathname}`)
+  if (time) url.searchParams.set('t', time.toFixed(0))
+  return url.href
+}
+
+const resolveVideos = (videoIds: string[], cachePolicy: 'cache-first' | 'network-only', progressCallback: (progress: number) => void) =>
+  resolveStatusById(videoIds.map((id) => ({ id, type: 'video' })), cachePolicy, progressCallback)
+
+/**
+ * Replaces every YT video link in the text that has an Odysee counterpart
+ *
+ * @param text with YT links in it
+ * @param domainPrefix of the target platform
+ * @param progressCallback called with the resolve progress, from 0 to 1
+ */
+async function convertText(text: string, domainPrefix: string, progressCallback: (progress: number) => void): Promise<ConversionResult> {
+  const links = findYouTubeVideoLinks(text)
+  const videoIds = [...new Set(links.map((link) => link.videoId))]
+  return applyStatuses(text, links, await resolveVideos(videoIds, 'cache-first', progressCallback), domainPrefix)
+}
+
+/**
+ * Looks the links whose lookup failed up again, and converts the text again with the answers
+ */
+async function retryFailedLinks(result: ConversionResult, domainPrefix: string, progressCallback: (progress: number) => void): Promise<ConversionResult> {
+  const videoIds = [...new Set(result.links.filter((link) => link.status === 'failed').map((link) => link.videoId))]
+  const statuses = { ...result.statuses, ...await resolveVideos(videoIds, 'network-only', progressCallback) }
+  return applyStatuses(result.input, findYouTubeVideoLinks(result.input), statuses, domainPrefix)
+}
+
+function applyStatuses(text: string, links: YouTubeVideoLink[], statuses: ResolveResults, domainPrefix: string): ConversionResult {
+  const convertedLinks: ConvertedLink[] = links.map((link) => {
+    const result = statuses[link.videoId]
+    if (result?.status === 'mapped') return { ...link, status: 'converted', odyseeUrl: getOdyseeUrl(domainPrefix, result.target.id, link.time) }
+    // Failed links are left as they are until they're looked up again
+    return { ...link, status: result?.status === 'error' || result?.status === 'rate-limited' ? 'failed' : 'not-found', odyseeUrl: null }
+  })
+
+  // Rebuild the text from the gaps between links, so only the links themselves change
+  let convertedText = ''
+  let position = 0
+  for (const link of convertedLinks) {
+    convertedText += text.slice(position, link.index) + (link.odyseeUrl ?? link.href)
+    position = link.index + link.href.length
+  }
+  convertedText += text.slice(position)
+
+  return { input: text, text: convertedText, links: convertedLinks, statuses }
+}
+
+const statusLabels: Record<LinkStatus, string> = {
+  'converted': 'Converted',
+  'not-found': 'Not on Odysee',
+  'failed': 'Lookup failed',
+}
+
+function YTtoLBRYPage() {
+  const { targetPlatform } = useExtensionSettings()
+  const [input, setInput] = useState('')
+  const [progress, setProgress] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<ConversionResult | null>(null)
+  const domainPrefix = targetPlatformSettings[targetPlatform].domainPrefix
+  const loading = progress !== null
+  const linkCount = findYouTubeVideoLinks(input).length
+
+  async function convert(event: Event) {
+    event.preventDefault()
+    if (loading || linkCount === 0) return
+    setError(null)
+    setResult(null)
+    setProgress(0)
+    try {
+      setResult(await convertText(input, domainPrefix, setProgress))
+    } catch (err) {
+      logger.error(err)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  async function retry() {
+    if (loading || !result) return
+    setError(null)
+    setProgress(0)
+    try {
+      setResult(await retryFailedLinks(result, domainPrefix, setProgress))
+    } catch (err) {
+      logger.error(err)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const convertedCount = result?.links.filter((link) => link.status === 'converted').length ?? 0
+  const failedCount = result?.links.filter((link) => link.status === 'failed').length ?? 0
+
+  return <main>
+    <div className='conversion'>
+      <form onSubmit={convert}>
+        <div className='fields'>
+          <label for='input'>Paste text with YouTube video links</label>
+          <textarea id='input' rows={12} cols={80} value={input} disabled={loading} onInput={(e) => setInput(e.currentTarget.value)} />
+        </div>
+        <div className='actions'>
+          <button type='submit' className={`button ${linkCount > 0 && !loading ? 'active' : 'disabled'}`} disabled={linkCount === 0 || loading}>
+            {loading ? `Converting... ${((progress ?? 0) * 100).toFixed(0)}%` : `Convert ${linkCount} links`}
+          </button>
+        </div>
+        {error && <p className='error'>{error}</p>}
+      </form>
+      {result && <div className='results'>
+        <p>
+          <span className='filled'>{convertedCount}</span> of {result.links.length} links converted.
+          {failedCount > 0 && <span className='error'> {failedCount} could not be looked up.</span>}
+        </p>
+        <textarea rows={12} cols={80} readOnly value={result.text} />
+        <div className='actions'>
+          <button type='button' className='button active' onClick={() => navigator.clipboard.writeText(result.text)}>
+            Copy converted text
+          </button>
+          {failedCount > 0 && <button type='button' className={`button ${loading ? 'disabled' : ''}`} disabled={loading} onClick={retry}>
+            Look up the {failedCount} failed links again
+          </button>}
+        </div>
+        <table className='link-status'>
+          <thead>
+            <tr>
+              <th>YouTube link</th>
+              <th>Status</th>
+              <th>Odysee link</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.links.map((link) => <tr key={link.index} className={link.status}>
+              <td className='result-item'>{link.href}</td>
+              <td>{statusLabels[link.status]}</td>
+              <td className='result-item'>{link.odyseeUrl && <a href={link.odyseeUrl} target='_blank' rel='noopener noreferrer'>{link.odyseeUrl}</a>}</td>
+            </tr>)}
+          </tbody>
+        </table>
+      </div>}
+    </div>
+    <div className='help'>
+      <div>
+        <h2>YouTube to Odysee link converter</h2>
+        <p>
+          Every <code>youtube.com/watch</code>, <code>youtu.be</code>, <code>shorts</code> and <code>live</code> link in the text
+          that has been uploaded to Odysee is replaced by its Odysee link, keeping the start time. The rest of the text is left as is.
+        </p>
+      </div>
+    </div>
+  </main>
+}
+
+render(<YTtoLBRYPage />, document.getElementById('root')!)
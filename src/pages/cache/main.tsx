@@ -0,0 +1,198 @@
+import { h, render } from 'preact'
+import { useEffect, useState } from 'preact/hooks'
+import { downloadFile } from '../../modules/file'
+import { logger } from '../../modules/logger'
+import { isChannelId } from '../../modules/yt'
+import { cacheStores, CacheStoreName } from '../../modules/yt/caches'
+import { exportCaches, importCaches } from '../../modules/yt/cacheTransfer'
+import { odyseeUrlCache } from '../../modules/yt/urlCacheClient'
+import type { YtUrlResolveItem } from '../../modules/yt/urlResolve'
+import { resolveStatusById } from '../../modules/yt/urlResolveClient'
+
+interface CacheRow {
+  cache: CacheStoreName
+  key: string
+  value: unknown
+  expireAt: Date
+}
+
+const cacheLabels: Record<CacheStoreName, string> = {
+  urls: 'YouTube ID → Odysee',
+  ucs: 'Channel ID → Odysee',
+  handles: 'Handle → Channel ID',
+  yturls: 'YouTube URL → Channel ID',
+}
+const cacheNames = Object.keys(cacheLabels) as CacheStoreName[]
+
+// Rendering thousands of rows makes the page crawl, searching narrows it down
+const MAX_ROWS = 200
+
+async function loadRows(): Promise<CacheRow[]> {
+  const rows = await Promise.all(cacheNames.map(async (name) => (await cacheStores[name].entries()).map((entry) => ({ cache: name, ...entry }))))
+  return rows.flat()
+}
+
+function formatValue(value: unknown): string {
+  if (value === null) return 'none'
+  if (typeof value === 'string') return value
+  // Channel targets stored by the content script have the Odysee path as odyseePathname
+  const target = value as { id?: string, odyseePathname?: string }
+  return target.odyseePathname ?? target.id ?? JSON.stringify(value)
+}
+
+/** The YT ID the entry was resolved from, null if it doesn't come from a resolve */
+function getRefreshItem(row: CacheRow): YtUrlResolveItem | null {
+  switch (row.cache) {
+    case 'urls': return { id: row.key, type: isChannelId(row.key) ? 'channel' : 'video' }
+    case 'ucs': return { id: row.key, type: 'channel' }
+    // Handles and URLs point at a channel ID, refreshing them refreshes that channel
+    default: return typeof row.value === 'string' && isChannelId(row.value) ? { id: row.value, type: 'channel' } : null
+  }
+}
+
+async function refreshRow(row: CacheRow) {
+  const item = getRefreshItem(row)
+  if (!item) return
+  const result = (await resolveStatusById([item], 'network-only'))[item.id]
+  if (result?.status === 'error' || result?.status === 'rate-limited') throw new Error(`Could not look ${item.id} up again, try again later`)
+  // The answer is only in the background's memory until it's written back, the rows are read from IndexedDB
+  await odyseeUrlCache.flush()
+  // The channel page rebuilds this from the fresh resolve the next time it's visited
+  if (item.type === 'channel') await cacheStores.ucs.delete(item.id)
+}
+
+function matches(row: CacheRow, query: string) {
+  // Handles are stored without the @, and Odysee paths have it in the middle, so it's left out of the comparison
+  const needle = query.trim().toLowerCase().replace(/^@/, '')
+  if (!needle) return true
+  return `${row.key} ${formatValue(row.value)}`.toLowerCase().includes(needle)
+}
+
+function CacheInspectorPage() {
+  const [rows, setRows] = useState<CacheRow[] | null>(null)
+  const [query, setQuery] = useState('')
+  const [cacheFilter, setCacheFilter] = useState<CacheStoreName | 'all'>('all')
+  const [busyRow, setBusyRow] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  async function reload() {
+    try {
+      setRows(await loadRows())
+    } catch (err) {
+      logger.error(err)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  useEffect(() => { reload() }, [])
+
+  async function runRowAction(row: CacheRow, action: (row: CacheRow) => Promise<void>) {
+    if (busyRow) return
+    setError(null)
+    setBusyRow(`${row.cache}:${row.key}`)
+    try {
+      await action(row)
+      await reload()
+    } catch (err) {
+      logger.error(err)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setBusyRow(null)
+    }
+  }
+
+  async function exportFile() {
+    setError(null)
+    setMessage(null)
+    try {
+      downloadFile(await exportCaches(), `watch-on-odysee-cache-${new Date().toISOString().slice(0, 10)}.json`, 'application/json')
+    } catch (err) {
+      logger.error(err)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  async function importFile(input: HTMLInputElement) {
+    const file = input.files?.[0]
+    if (!file) return
+    setError(null)
+    setMessage(null)
+    try {
+      const { imported, unchanged, invalid } = await importCaches(file)
+      setMessage(`Imported ${imported} entries, ${unchanged} already had a later expiry${invalid ? `, ${invalid} could not be read` : ''}.`)
+      await reload()
+    } catch (err) {
+      logger.error(err)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      // Lets the same file be picked again
+      input.value = ''
+    }
+  }
+
+  // The background answers URLs from memory too, so those are deleted there
+  const deleteRow = (row: CacheRow) => row.cache === 'urls' ? odyseeUrlCache.deleteEntries([row.key]) : cacheStores[row.cache].delete(row.key)
+
+  const filtered = (rows ?? []).filter((row) => (cacheFilter === 'all' || row.cache === cacheFilter) && matches(row, query))
+  const now = new Date()
+
+  return <main>
+    <h1>Resolver Cache</h1>
+    <section className='transfer'>
+      <button type='button' className='button active' onClick={exportFile}>Export cache</button>
+      <label className='button active'>
+        Import cache
+        <input type='file' accept='.json,application/json' onChange={(e) => importFile(e.currentTarget)} />
+      </label>
+    </section>
+    {message && <p>{message}</p>}
+    <section className='filters'>
+      <input type='search' placeholder='YouTube ID, handle or Odysee path' value={query} onInput={(e) => setQuery(e.currentTarget.value)} />
+      <select value={cacheFilter} onChange={(e) => setCacheFilter(e.currentTarget.value as CacheStoreName | 'all')}>
+        <option value='all'>All caches</option>
+        {cacheNames.map((name) => <option key={name} value={name}>{cacheLabels[name]}</option>)}
+      </select>
+    </section>
+    {error && <p className='error'>{error}</p>}
+    {!rows
+      ? <p>Loading...</p>
+      : <section>
+        <p>
+          {filtered.length > MAX_ROWS ? `Showing ${MAX_ROWS} of ${filtered.length}` : filtered.length} entries
+          {filtered.length !== rows.length && ` (${rows.length} in total)`}
+        </p>
+        <table>
+          <thead>
+            <tr>
+              <th>Cache</th>
+              <th>Key</th>
+              <th>Value</th>
+              <th>Expires</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {filtered.slice(0, MAX_ROWS).map((row) => {
+              const id = `${row.cache}:${row.key}`
+              const expired = row.expireAt <= now
+              return <tr key={id} className={expired ? 'expired' : ''}>
+                <td>{cacheLabels[row.cache]}</td>
+                <td><code>{row.key}</code></td>
+                <td><code>{formatValue(row.value)}</code></td>
+                <td>{row.expireAt.toLocaleString()}{expired && ' (expired)'}</td>
+                <td className='actions'>
+                  {getRefreshItem(row) && <button type='button' className='button' disabled={!!busyRow} onClick={() => runRowAction(row, refreshRow)}>
+                    {busyRow === id ? 'Refreshing...' : 'Refresh'}
+                  </button>}
+                  <button type='button' className='button' disabled={!!busyRow} onClick={() => runRowAction(row, deleteRow)}>Delete</button>
+                </td>
+              </tr>
+            })}
+          </tbody>
+        </table>
+      </section>}
+  </main>
+}
+
+render(<CacheInspectorPage />, document.getElementById('root')!)
@@ -1,2 +1,208 @@
-// Page removed; kept file to avoid broken imports if referenced elsewhere.
-export {}
+import { h, render } from 'preact'
+import { useState } from 'preact/hooks'
+import { downloadFile } from '../../modules/file'
+import { getSubsFromFile, InvalidSubscriptionRow } from '../../modules/yt'
+import { createOdyseeOpml, createOdyseeUrlJson, createOdyseeUrlList, getResolvedChannelExportItems } from '../../modules/yt/export'
+import type { ResolveResults, ResolveStatus, YtUrlResolveItem } from '../../modules/yt/urlResolve'
+import { resolveStatusById } from '../../modules/yt/urlResolveClient'
+import { logger } from '../../modules/logger'
+import { targetPlatformSettings, useExtensionSettings } from '../../settings'
+
+interface ChannelRow {
+  ytChannelId: string
+  title: string | null
+  status: ResolveStatus
+  odyseePathname: string | null
+}
+
+interface ImportResult {
+  fileName: string
+  channelIds: string[]
+  invalidRows: InvalidSubscriptionRow[]
+  statuses: ResolveResults
+  titles: Record<string, string>
+}
+
+const statusLabels: Record<Exclude<ResolveStatus, 'mapped'>, string> = {
+  'not-found': 'Not on Odysee',
+  'error': 'Lookup failed',
+  'rate-limited': 'Lookup rate limited',
+}
+
+const resolveChannels = (channelIds: string[], cachePolicy: 'cache-first' | 'network-only', progressCallback: (progress: number) => void) =>
+  resolveStatusById(channelIds.map((id) => ({ id, type: 'channel' })), cachePolicy, progressCallback)
+
+/**
+ * Reads the subscriptions file and resolves every channel in it.
+ * Channels whose lookup failed are kept with their status, so they can be looked up again.
+ *
+ * @param file the subscriptions export
+ * @param progressCallback called with the resolve progress, from 0 to 1
+ */
+async function resolveSubscriptions(file: File, progressCallback: (progress: number) => void): Promise<ImportResult> {
+  const { channelIds, titles, invalidRows } = await getSubsFromFile(file)
+  const statuses = await resolveChannels(channelIds, 'cache-first', progressCallback)
+  return { fileName: file.name, channelIds, invalidRows, statuses, titles }
+}
+
+function getChannelRows(result: ImportResult): ChannelRow[] {
+  return result.channelIds.map((ytChannelId) => {
+    const status = result.statuses[ytChannelId] ?? { status: 'not-found' }
+    return {
+      ytChannelId,
+      title: result.titles[ytChannelId] ?? null,
+      status: status.status,
+      odyseePathname: status.status === 'mapped' ? status.target.id : null
+    }
+  })
+}
+
+/** The channels that are on Odysee, by YT channel ID */
+function getMappedResults(statuses: ResolveResults): Record<string, YtUrlResolveItem> {
+  const results: Record<string, YtUrlResolveItem> = {}
+  for (const [id, status] of Object.entries(statuses)) if (status.status === 'mapped') results[id] = status.target
+  return results
+}
+
+function ProgressBar({ progress }: { progress: number }) {
+  return <div className='progress' role='progressbar' aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(progress * 100)}>
+    <div className='progress-fill' style={{ width: `${(progress * 100).toFixed(1)}%` }} />
+    <span className='progress-text'>{(progress * 100).toFixed(0)}%</span>
+  </div>
+}
+
+function ChannelTable({ channels, domainPrefix }: { channels: ChannelRow[], domainPrefix: string }) {
+  return <table>
+    <thead>
+      <tr>
+        <th>YouTube channel</th>
+        <th>Odysee channel</th>
+      </tr>
+    </thead>
+    <tbody>
+      {channels.map((channel) => <tr key={channel.ytChannelId}>
+        <td>
+          <a href={`https://www.youtube.com/channel/${channel.ytChannelId}`} target='_blank' rel='noopener noreferrer'>
+            {channel.title ?? channel.ytChannelId}
+          </a>
+        </td>
+        <td>
+          {channel.odyseePathname
+            ? <a href={`${domainPrefix}${channel.odyseePathname}`} target='_blank' rel='noopener noreferrer'>{channel.odyseePathname}</a>
+            : <span className='unmapped'>{statusLabels[channel.status as Exclude<ResolveStatus, 'mapped'>]}</span>}
+        </td>
+      </tr>)}
+    </tbody>
+  </table>
+}
+
+function ExportActions({ result, domainPrefix }: { result: ImportResult, domainPrefix: string }) {
+  const items = getResolvedChannelExportItems(getMappedResults(result.statuses), result.titles, domainPrefix)
+  const baseName = 'odysee-subscriptions'
+
+  return <div className='export-actions'>
+    <button type='button' className='button active' onClick={() => downloadFile(createOdyseeOpml(items), `${baseName}.opml`, 'text/x-opml')}>
+      Export OPML (RSS feeds)
+    </button>
+    <button type='button' className='button' onClick={() => downloadFile(createOdyseeUrlList(items), `${baseName}.txt`, 'text/plain')}>
+      Export URL list
+    </button>
+    <button type='button' className='button' onClick={() => downloadFile(createOdyseeUrlJson(items), `${baseName}.json`, 'application/json')}>
+      Export JSON
+    </button>
+  </div>
+}
+
+function ImportPage() {
+  const { targetPlatform } = useExtensionSettings()
+  const [file, setFile] = useState<File | null>(null)
+  const [progress, setProgress] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const domainPrefix = targetPlatformSettings[targetPlatform].domainPrefix
+  const loading = progress !== null
+
+  async function start(event: Event) {
+    event.preventDefault()
+    if (!file || loading) return
+    setError(null)
+    setResult(null)
+    setProgress(0)
+    try {
+      setResult(await resolveSubscriptions(file, setProgress))
+    } catch (err) {
+      logger.error(err)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  async function retryFailed(channelIds: string[]) {
+    if (loading) return
+    setError(null)
+    setProgress(0)
+    try {
+      const statuses = await resolveChannels(channelIds, 'network-only', setProgress)
+      setResult((previous) => previous && { ...previous, statuses: { ...previous.statuses, ...statuses } })
+    } catch (err) {
+      logger.error(err)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const channels = result ? getChannelRows(result) : []
+  const mapped = channels.filter((channel) => channel.status === 'mapped')
+  const unmapped = channels.filter((channel) => channel.status === 'not-found')
+  const failed = channels.filter((channel) => channel.status === 'error' || channel.status === 'rate-limited')
+
+  return <main>
+    <section className='conversion'>
+      <h1>Find your subscriptions on Odysee</h1>
+      <form onSubmit={start}>
+        <p>Select a YouTube subscriptions export: a Google Takeout <code>.zip</code> archive or its <code>subscriptions.csv</code>, the old <code>subscriptions.json</code>, an OPML file from a feed reader, or a NewPipe, FreeTube or LibreTube export.</p>
+        <input type='file' accept='.zip,.csv,.json,.opml,.xml,.db' disabled={loading} onChange={(e) => setFile(e.currentTarget.files?.[0] ?? null)} />
+        <button type='submit' className={`button ${file && !loading ? 'active' : 'disabled'}`} disabled={!file || loading}>
+          Resolve channels
+        </button>
+      </form>
+      {loading && <ProgressBar progress={progress!} />}
+      {error && <p className='error'>{error}</p>}
+    </section>
+    {result && <section className='results'>
+      <h2>{result.fileName}</h2>
+      <p>
+        <span className='filled'>{mapped.length}</span> of {channels.length} channels are on Odysee.
+        {failed.length > 0 && <span className='error'> {failed.length} could not be looked up.</span>}
+      </p>
+      {mapped.length > 0 && <ExportActions result={result} domainPrefix={domainPrefix} />}
+      {result.invalidRows.length > 0 && <details className='invalid-rows'>
+        <summary className='error'>{result.invalidRows.length} rows could not be read</summary>
+        <ul>
+          {result.invalidRows.map((row) => <li key={row.row}>
+            Row {row.row}: {row.reason} <code>{row.content}</code>
+          </li>)}
+        </ul>
+      </details>}
+      {failed.length > 0 && <div>
+        <h3>Could not be looked up</h3>
+        <button type='button' className={`button ${loading ? 'disabled' : 'active'}`} disabled={loading} onClick={() => retryFailed(failed.map((channel) => channel.ytChannelId))}>
+          Look up the {failed.length} failed ones again
+        </button>
+        <ChannelTable channels={failed} domainPrefix={domainPrefix} />
+      </div>}
+      {mapped.length > 0 && <div>
+        <h3>On Odysee</h3>
+        <ChannelTable channels={mapped} domainPrefix={domainPrefix} />
+      </div>}
+      {unmapped.length > 0 && <div>
+        <h3>Not on Odysee yet</h3>
+        <ChannelTable channels={unmapped} domainPrefix={domainPrefix} />
+      </div>}
+    </section>}
+  </main>
+}
+
+render(<ImportPage />, document.getElementById('root')!)
@@ -0,0 +1,485 @@
+import { h, render } from 'preact'
+import { useState } from 'preact/hooks'
+import { downloadFile } from '../../modules/file'
+import { logger } from '../../modules/logger'
+import { setCacheTtl } from '../../modules/yt/caches'
+import { exportMappingOverrides, importMappingOverrides, parseOdyseePath, parseYouTubeItem, setMappingOverride } from '../../modules/yt/overrides'
+import { describeRedirectRule, parseTimeWindows, redirectActionLabels, redirectPageTypeLabels } from '../../modules/yt/redirectRules'
+import { normalizeChannelEntry } from '../../modules/yt/ignoreList'
+import { testYtUrlResolver } from '../../modules/yt/urlResolve'
+import { CacheTtlSettingName, cacheTtlLimits, CustomYTUrlResolverName, DEFAULT_SETTINGS, ExtensionSettings, getYtUrlResolversSettingsEntiries, isCustomYtUrlResolverName, RedirectMode, RedirectPageType, RedirectRule, RedirectRuleAction, setExtensionSetting, useExtensionSettings, YTUrlResolver, YTUrlResolverName } from '../../settings'
+
+/** Host permission pattern that covers every request to the resolver */
+function getResolverOriginPattern(href: string) {
+  return `${new URL(href).origin}/*`
+}
+
+function requestOriginPermission(origin: string) {
+  return new Promise<boolean>((resolve) => chrome.permissions.request({ origins: [origin] }, (granted) => resolve(!!granted)))
+}
+
+function removeOriginPermission(origin: string) {
+  return new Promise<boolean>((resolve) => chrome.permissions.remove({ origins: [origin] }, (removed) => resolve(!!removed)))
+}
+
+/**
+ * Drops the host permissions that no resolver needs anymore.
+ * Permissions declared in the manifest can't be removed, the browser just refuses those.
+ */
+async function releaseUnusedOriginPermissions(origins: string[], customUrlResolvers: ExtensionSettings['customUrlResolvers']) {
+  const usedOrigins = new Set(getYtUrlResolversSettingsEntiries({ customUrlResolvers }).map(([, resolver]) => getResolverOriginPattern(resolver.href)))
+  for (const origin of new Set(origins)) {
+    if (usedOrigins.has(origin)) continue
+    try { await removeOriginPermission(origin) } catch (error) { logger.warn('Could not remove permission for', origin, error) }
+  }
+}
+
+function validateResolver(resolver: YTUrlResolver): string | null {
+  if (!resolver.name.trim()) return 'Name is required.'
+  let url: URL
+  try { url = new URL(resolver.href) } catch { return 'Base href is not a valid URL.' }
+  if (url.protocol !== 'https:') return 'Base href must be an https:// URL.'
+  if (url.search || url.hash) return 'Base href must not have a query or a hash.'
+  return null
+}
+
+const emptyResolver: YTUrlResolver = { name: '', href: '', signRequest: false }
+
+function ResolverForm({ initial, onSave, onCancel }: {
+  initial: YTUrlResolver
+  onSave: (resolver: YTUrlResolver) => Promise<void>
+  onCancel?: () => void
+}) {
+  const [resolver, setResolver] = useState(initial)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  async function submit(event: Event) {
+    event.preventDefault()
+    if (saving) return
+    const trimmed = { ...resolver, name: resolver.name.trim(), href: resolver.href.trim() }
+    const validationError = validateResolver(trimmed)
+    if (validationError) return setError(validationError)
+
+    setError(null)
+    setSaving(true)
+    try {
+      await onSave(trimmed)
+      setResolver(emptyResolver)
+    } catch (err) {
+      logger.error(err)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return <form onSubmit={submit}>
+    <div className='field'>
+      <span>Name</span>
+      <input type='text' value={resolver.name} disabled={saving} onInput={(e) => setResolver({ ...resolver, name: e.currentTarget.value })} />
+    </div>
+    <div className='field'>
+      <span>Base href (<code>/resolve</code> is appended)</span>
+      <input type='url' placeholder='https://api.odysee.com/yt' value={resolver.href} disabled={saving} onInput={(e) => setResolver({ ...resolver, href: e.currentTarget.value })} />
+    </div>
+    <label className='field'>
+      <span>
+        <input type='checkbox' checked={resolver.signRequest} disabled={saving} onChange={(e) => setResolver({ ...resolver, signRequest: e.currentTarget.checked })} /> Sign requests
+      </span>
+    </label>
+    <label className='field'>
+      <span>
+        <input type='checkbox' checked={!!resolver.supportsPost} disabled={saving} onChange={(e) => setResolver({ ...resolver, supportsPost: e.currentTarget.checked })} /> Accepts POST, for long ID lists
+      </span>
+    </label>
+    {error && <p className='error'>{error}</p>}
+    <div className='actions'>
+      <button type='submit' className={`button ${saving ? 'disabled' : 'active'}`} disabled={saving}>
+        {saving ? 'Testing...' : 'Save'}
+      </button>
+      {onCancel && <button type='button' className='button' onClick={onCancel} disabled={saving}>Cancel</button>}
+    </div>
+  </form>
+}
+
+function ResolversSection() {
+  const settings = useExtensionSettings()
+  const { urlResolver, urlResolverFallbacks, customUrlResolvers } = settings
+  const [editing, setEditing] = useState<CustomYTUrlResolverName | null>(null)
+  const resolvers = getYtUrlResolversSettingsEntiries(settings)
+
+  /**
+   * Asks for host access, checks the resolver with a test resolve, then stores it.
+   * The permission request has to happen first, while the click still counts as a user gesture.
+   */
+  async function saveResolver(name: CustomYTUrlResolverName, resolver: YTUrlResolver) {
+    const origin = getResolverOriginPattern(resolver.href)
+    if (!await requestOriginPermission(origin)) throw new Error(`Access to ${new URL(resolver.href).origin} was not granted.`)
+
+    const previous = customUrlResolvers[name]
+    const nextResolvers = { ...customUrlResolvers, [name]: resolver }
+    try {
+      await testYtUrlResolver(resolver)
+    } catch (error) {
+      await releaseUnusedOriginPermissions([origin], customUrlResolvers)
+      throw new Error(`Test resolve failed: ${error instanceof Error ? error.message : error}`)
+    }
+
+    await setExtensionSetting('customUrlResolvers', nextResolvers)
+    if (previous) await releaseUnusedOriginPermissions([getResolverOriginPattern(previous.href)], nextResolvers)
+  }
+
+  async function removeResolver(name: CustomYTUrlResolverName) {
+    const removed = customUrlResolvers[name]
+    const nextResolvers = { ...customUrlResolvers }
+    delete nextResolvers[name]
+    if (urlResolver === name) await setExtensionSetting('urlResolver', DEFAULT_SETTINGS.urlResolver)
+    if (urlResolverFallbacks.includes(name)) await setExtensionSetting('urlResolverFallbacks', urlResolverFallbacks.filter((fallback) => fallback !== name))
+    await setExtensionSetting('customUrlResolvers', nextResolvers)
+    if (removed) await releaseUnusedOriginPermissions([getResolverOriginPattern(removed.href)], nextResolvers)
+  }
+
+  return <section>
+    <label>URL Resolvers</label>
+    <p>The resolver maps YouTube videos and channels to Odysee. Custom resolvers must serve the same <code>/resolve</code> API as api.odysee.com.</p>
+    <div className='list'>
+      {resolvers.map(([name, resolver]) => <div className='list-item' key={name}>
+        {editing === name
+          ? <ResolverForm
+            initial={resolver}
+            onSave={async (edited) => { await saveResolver(name as CustomYTUrlResolverName, edited); setEditing(null) }}
+            onCancel={() => setEditing(null)} />
+          : <div className='details'>
+            <strong>{resolver.name}</strong>
+            <small>{resolver.href}{resolver.signRequest ? ' (signed)' : ''}{resolver.supportsPost ? ' (POST)' : ''}</small>
+          </div>}
+        <div className='actions'>
+          <button type='button' className={`button ${urlResolver === name ? 'active' : ''}`} aria-pressed={urlResolver === name} onClick={() => setExtensionSetting('urlResolver', name as YTUrlResolverName)}>
+            {urlResolver === name ? 'In use' : 'Use'}
+          </button>
+          {isCustomYtUrlResolverName(name) && editing !== name && <button type='button' className='button' onClick={() => setEditing(name)}>Edit</button>}
+          {isCustomYtUrlResolverName(name) && <button type='button' className='button' onClick={() => removeResolver(name).catch(logger.error)}>Remove</button>}
+        </div>
+      </div>)}
+    </div>
+    <label>Add a resolver</label>
+    <ResolverForm initial={emptyResolver} onSave={(resolver) => saveResolver(`custom:${Date.now().toString(36)}`, resolver)} />
+  </section>
+}
+
+function FallbacksSection() {
+  const settings = useExtensionSettings()
+  const { urlResolver, urlResolverFallbacks } = settings
+  const resolvers = Object.fromEntries(getYtUrlResolversSettingsEntiries(settings))
+  const fallbacks = urlResolverFallbacks.filter((name) => name !== urlResolver && resolvers[name])
+  const available = Object.keys(resolvers).filter((name) => name !== urlResolver && !fallbacks.includes(name as YTUrlResolverName)) as YTUrlResolverName[]
+
+  function move(index: number, offset: number) {
+    const next = [...fallbacks]
+    const [name] = next.splice(index, 1)
+    next.splice(index + offset, 0, name)
+    setExtensionSetting('urlResolverFallbacks', next)
+  }
+
+  return <section>
+    <label>Fallback Resolvers</label>
+    <p>When <strong>{resolvers[urlResolver]?.name}</strong> times out, can't be reached or has a server error, these are tried in order.</p>
+    <div className='list'>
+      {fallbacks.map((name, index) => <div className='list-item' key={name}>
+        <div className='details'>
+          <strong>{index + 1}. {resolvers[name].name}</strong>
+          <small>{resolvers[name].href}</small>
+        </div>
+        <div className='actions'>
+          <button type='button' className={`button ${index === 0 ? 'disabled' : ''}`} disabled={index === 0} onClick={() => move(index, -1)} aria-label='Move up'>↑</button>
+          <button type='button' className={`button ${index === fallbacks.length - 1 ? 'disabled' : ''}`} disabled={index === fallbacks.length - 1} onClick={() => move(index, 1)} aria-label='Move down'>↓</button>
+          <button type='button' className='button' onClick={() => setExtensionSetting('urlResolverFallbacks', fallbacks.filter((fallback) => fallback !== name))}>Remove</button>
+        </div>
+      </div>)}
+      {available.map((name) => <div className='list-item' key={name}>
+        <div className='details'>
+          <span>{resolvers[name].name}</span>
+          <small>{resolvers[name].href}</small>
+        </div>
+        <div className='actions'>
+          <button type='button' className='button' onClick={() => setExtensionSetting('urlResolverFallbacks', [...fallbacks, name])}>Add as fallback</button>
+        </div>
+      </div>)}
+    </div>
+  </section>
+}
+
+const cacheTtlLabels: Record<CacheTtlSettingName, string> = {
+  urlCacheHitTtl: 'Hours a video or channel found on Odysee is cached',
+  urlCacheMissTtl: 'Hours a video or channel not on Odysee is cached',
+  channelCacheHitTtl: 'Hours a channel page lookup is cached',
+  channelCacheMissTtl: 'Hours a channel page without an Odysee channel is cached',
+}
+
+function CacheSection() {
+  const settings = useExtensionSettings()
+  const { cacheMaxEntries } = settings
+
+  function setMaxEntries(value: string) {
+    const maxEntries = Math.round(Number(value))
+    if (Number.isFinite(maxEntries) && maxEntries > 0) setExtensionSetting('cacheMaxEntries', maxEntries)
+  }
+
+  function setTtl(name: CacheTtlSettingName, value: string) {
+    if (!value.trim()) return
+    // Entries already cached move to the new lifetime too
+    setCacheTtl(name, Math.round(Number(value))).catch((err) => logger.error(err))
+  }
+
+  return <section>
+    <label>Cache</label>
+    <form onSubmit={(e) => e.preventDefault()}>
+      <div className='field'>
+        <span>Most entries per cache, the least recently used ones are removed above it</span>
+        <input type='number' min={1} step={1000} value={cacheMaxEntries} onChange={(e) => setMaxEntries(e.currentTarget.value)} />
+      </div>
+      {(Object.keys(cacheTtlLabels) as CacheTtlSettingName[]).map((name) => <div key={name} className='field'>
+        <span>{cacheTtlLabels[name]}</span>
+        <input type='number' min={cacheTtlLimits[name].min} max={cacheTtlLimits[name].max} step={1} value={settings[name]} onChange={(e) => setTtl(name, e.currentTarget.value)} />
+      </div>)}
+    </form>
+  </section>
+}
+
+function OverrideForm() {
+  const [youTube, setYouTube] = useState('')
+  const [odysee, setOdysee] = useState('')
+  const [neverShow, setNeverShow] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function submit(event: Event) {
+    event.preventDefault()
+    const item = parseYouTubeItem(youTube)
+    if (!item) return setError('Enter a YouTube video ID, a channel ID (UC...) or a link to one.')
+    const odyseePath = neverShow ? null : parseOdyseePath(odysee)
+    if (!neverShow && !odyseePath) return setError('Enter an Odysee link, or a path like @channel:a/video:b.')
+
+    setError(null)
+    try {
+      await setMappingOverride(item.id, { type: item.type, odyseePath })
+      setYouTube('')
+      setOdysee('')
+      setNeverShow(false)
+    } catch (err) {
+      logger.error(err)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return <form onSubmit={submit}>
+    <div className='field'>
+      <span>YouTube video or channel</span>
+      <input type='text' placeholder='https://www.youtube.com/channel/UC...' value={youTube} onInput={(e) => setYouTube(e.currentTarget.value)} />
+    </div>
+    <div className='field'>
+      <span>Odysee video or channel</span>
+      <input type='text' placeholder='https://odysee.com/@channel:a' value={odysee} disabled={neverShow} onInput={(e) => setOdysee(e.currentTarget.value)} />
+    </div>
+    <label className='field'>
+      <span>
+        <input type='checkbox' checked={neverShow} onChange={(e) => setNeverShow(e.currentTarget.checked)} /> Never show a button for it
+      </span>
+    </label>
+    {error && <p className='error'>{error}</p>}
+    <div className='actions'>
+      <button type='submit' className='button active'>Save</button>
+    </div>
+  </form>
+}
+
+function OverridesSection() {
+  const { mappingOverrides } = useExtensionSettings()
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const overrides = Object.entries(mappingOverrides ?? {}).sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+
+  async function exportFile() {
+    setError(null)
+    setMessage(null)
+    try {
+      downloadFile(await exportMappingOverrides(), `watch-on-odysee-overrides-${new Date().toISOString().slice(0, 10)}.json`, 'application/json')
+    } catch (err) {
+      logger.error(err)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  async function importFile(input: HTMLInputElement) {
+    const file = input.files?.[0]
+    if (!file) return
+    setError(null)
+    setMessage(null)
+    try {
+      const { imported, invalid } = await importMappingOverrides(file)
+      setMessage(`Imported ${imported} overrides${invalid ? `, ${invalid} could not be read` : ''}.`)
+    } catch (err) {
+      logger.error(err)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      // Lets the same file be picked again
+      input.value = ''
+    }
+  }
+
+  return <section>
+    <label>Overrides</label>
+    <p>Your own mappings, used instead of the resolver's. Channel overrides can also be set from the button on a channel page.</p>
+    <div className='transfer'>
+      <button type='button' className='button' onClick={exportFile}>Export</button>
+      <label className='button'>
+        Import
+        <input type='file' accept='.json,application/json' onChange={(e) => importFile(e.currentTarget)} />
+      </label>
+    </div>
+    {message && <p>{message}</p>}
+    {error && <p className='error'>{error}</p>}
+    <div className='list'>
+      {overrides.map(([id, override]) => <div className='list-item' key={id}>
+        <div className='details'>
+          <strong>{override.type === 'channel' ? 'Channel' : 'Video'} {id}</strong>
+          <small>{override.odyseePath ? `→ ${override.odyseePath}` : 'Never shown'}</small>
+        </div>
+        <div className='actions'>
+          <button type='button' className='button' onClick={() => setMappingOverride(id, null).catch(logger.error)}>Remove</button>
+        </div>
+      </div>)}
+    </div>
+    <label>Add an override</label>
+    <OverrideForm />
+  </section>
+}
+
+function RedirectRuleForm({ onSave }: { onSave: (rule: RedirectRule) => void }) {
+  const [pageTypes, setPageTypes] = useState<RedirectPageType[]>([])
+  const [channels, setChannels] = useState('')
+  const [focused, setFocused] = useState<'any' | 'focused' | 'unfocused'>('any')
+  const [timeWindows, setTimeWindows] = useState('')
+  const [action, setAction] = useState<RedirectRuleAction>('redirect')
+  const [error, setError] = useState<string | null>(null)
+
+  function togglePageType(pageType: RedirectPageType, checked: boolean) {
+    setPageTypes(checked ? [...pageTypes, pageType] : pageTypes.filter((type) => type !== pageType))
+  }
+
+  function submit(event: Event) {
+    event.preventDefault()
+    const windows = parseTimeWindows(timeWindows)
+    if (!windows) return setError('Enter times of day like 09:00-17:00, separated by commas.')
+    setError(null)
+    onSave({
+      id: Date.now().toString(36),
+      pageTypes,
+      channels: channels.split(/[\s,]+/).filter(Boolean).map(normalizeChannelEntry),
+      focused: focused === 'any' ? null : focused === 'focused',
+      timeWindows: windows,
+      action
+    })
+    setPageTypes([])
+    setChannels('')
+    setFocused('any')
+    setTimeWindows('')
+    setAction('redirect')
+  }
+
+  return <form onSubmit={submit}>
+    <div className='field'>
+      <span>Pages, all of them when none is checked</span>
+      <span className='checkboxes'>
+        {(Object.keys(redirectPageTypeLabels) as RedirectPageType[]).map((pageType) => <label key={pageType}>
+          <input type='checkbox' checked={pageTypes.includes(pageType)} onChange={(e) => togglePageType(pageType, e.currentTarget.checked)} /> {redirectPageTypeLabels[pageType]}
+        </label>)}
+      </span>
+    </div>
+    <div className='field'>
+      <span>Channels, by ID or @handle, every channel when empty</span>
+      <input type='text' placeholder='@channel, UC...' value={channels} onInput={(e) => setChannels(e.currentTarget.value)} />
+    </div>
+    <div className='field'>
+      <span>Tab</span>
+      <select value={focused} onChange={(e) => setFocused(e.currentTarget.value as typeof focused)}>
+        <option value='any'>Focused or not</option>
+        <option value='focused'>Focused</option>
+        <option value='unfocused'>In the background</option>
+      </select>
+    </div>
+    <div className='field'>
+      <span>Times of day, any time when empty</span>
+      <input type='text' placeholder='09:00-17:00, 22:00-06:00' value={timeWindows} onInput={(e) => setTimeWindows(e.currentTarget.value)} />
+    </div>
+    <div className='field'>
+      <span>Then</span>
+      <select value={action} onChange={(e) => setAction(e.currentTarget.value as RedirectRuleAction)}>
+        {(Object.keys(redirectActionLabels) as RedirectRuleAction[]).map((value) => <option key={value} value={value}>{redirectActionLabels[value]}</option>)}
+      </select>
+    </div>
+    {error && <p className='error'>{error}</p>}
+    <div className='actions'>
+      <button type='submit' className='button active'>Add</button>
+    </div>
+  </form>
+}
+
+const redirectModeLabels: Record<RedirectMode, string> = {
+  'new-tab': 'A new tab, going back on the YouTube tab',
+  'same-tab': 'The YouTube tab itself',
+  'background-tab': 'A background tab, leaving the YouTube tab open',
+}
+
+function RedirectRulesSection() {
+  const { redirectRules, redirectMode } = useExtensionSettings()
+  const rules = redirectRules ?? []
+
+  function move(index: number, offset: number) {
+    const next = [...rules]
+    const [rule] = next.splice(index, 1)
+    next.splice(index + offset, 0, rule)
+    setExtensionSetting('redirectRules', next)
+  }
+
+  return <section>
+    <label>Redirect Rules</label>
+    <p>Tried in order on video and channel pages, the first one that matches decides. When none does, the auto redirect toggles in the popup decide.</p>
+    <form onSubmit={(e) => e.preventDefault()}>
+      <div className='field'>
+        <span>Redirects open Odysee in</span>
+        <select value={redirectMode} onChange={(e) => setExtensionSetting('redirectMode', e.currentTarget.value as RedirectMode)}>
+          {(Object.keys(redirectModeLabels) as RedirectMode[]).map((mode) => <option key={mode} value={mode}>{redirectModeLabels[mode]}</option>)}
+        </select>
+      </div>
+    </form>
+    <div className='list'>
+      {rules.map((rule, index) => <div className='list-item' key={rule.id}>
+        <div className='details'>
+          <strong>{index + 1}. {redirectActionLabels[rule.action]}</strong>
+          <small>{describeRedirectRule(rule)}</small>
+        </div>
+        <div className='actions'>
+          <button type='button' className={`button ${index === 0 ? 'disabled' : ''}`} disabled={index === 0} onClick={() => move(index, -1)} aria-label='Move up'>↑</button>
+          <button type='button' className={`button ${index === rules.length - 1 ? 'disabled' : ''}`} disabled={index === rules.length - 1} onClick={() => move(index, 1)} aria-label='Move down'>↓</button>
+          <button type='button' className='button' onClick={() => setExtensionSetting('redirectRules', rules.filter((other) => other.id !== rule.id))}>Remove</button>
+        </div>
+      </div>)}
+    </div>
+    <label>Add a rule</label>
+    <RedirectRuleForm onSave={(rule) => setExtensionSetting('redirectRules', [...rules, rule])} />
+  </section>
+}
+
+function OptionsPage() {
+  return <main>
+    <h1>Watch on Odysee</h1>
+    <ResolversSection />
+    <FallbacksSection />
+    <RedirectRulesSection />
+    <OverridesSection />
+    <CacheSection />
+  </main>
+}
+
+render(<OptionsPage />, document.getElementById('root')!)
@@ -0,0 +1,133 @@
+import { h, render } from 'preact'
+import { useEffect, useState } from 'preact/hooks'
+import { logger } from '../../modules/logger'
+import { PlaylistItem, readPlaylistRunnerUrl } from '../../modules/yt/playlist'
+import type { ResolveResults, ResolveStatus } from '../../modules/yt/urlResolve'
+import { resolveStatusById } from '../../modules/yt/urlResolveClient'
+import { targetPlatformSettings, useExtensionSettings } from '../../settings'
+
+interface RunnerItem extends PlaylistItem {
+  /** 1-based position in the playlist */
+  position: number
+}
+
+const skipReasons: Record<Exclude<ResolveStatus, 'mapped'>, string> = {
+  'not-found': 'Not on Odysee',
+  'error': 'Lookup failed',
+  'rate-limited': 'Lookup rate limited',
+}
+
+/**
+ * Opens the URL in the tab the runner opened before, or in a new one if there is none anymore
+ * @returns the ID of the tab it was opened in
+ */
+function openInRunnerTab(url: string, tabId: number | null): Promise<number | null> {
+  return new Promise((resolve) => {
+    const create = () => chrome.tabs.create({ url }, (tab) => resolve(tab?.id ?? null))
+    if (tabId === null) return create()
+    chrome.tabs.update(tabId, { url, active: true }, (tab) => {
+      // Closed since
+      if (chrome.runtime.lastError || !tab) return create()
+      resolve(tab.id ?? null)
+    })
+  })
+}
+
+function PlaylistRunnerPage() {
+  const [playlist] = useState(() => readPlaylistRunnerUrl(location.href))
+  const { targetPlatform } = useExtensionSettings()
+  const [results, setResults] = useState<ResolveResults | null>(null)
+  const [progress, setProgress] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [current, setCurrent] = useState<number | null>(null)
+  const [runnerTabId, setRunnerTabId] = useState<number | null>(null)
+  const domainPrefix = targetPlatformSettings[targetPlatform].domainPrefix
+
+  const items: RunnerItem[] = (playlist?.items ?? []).map((item, index) => ({ ...item, position: index + 1 }))
+
+  async function lookUp(lookUpItems: RunnerItem[], cachePolicy: 'cache-first' | 'network-only') {
+    setError(null)
+    try {
+      const statuses = await resolveStatusById(lookUpItems.map(({ id }) => ({ id, type: 'video' })), cachePolicy, setProgress)
+      setResults((previous) => ({ ...previous, ...statuses }))
+    } catch (err) {
+      logger.error(err)
+      setError(err instanceof Error ? err.message : String(err))
+      // Listed as failed, so they can be looked up again
+      const failures: ResolveResults = Object.fromEntries(lookUpItems.map(({ id }) => [id, { status: 'error', retryAt: Date.now() }]))
+      setResults((previous) => ({ ...previous, ...failures }))
+    }
+  }
+
+  useEffect(() => { lookUp(items, 'cache-first') }, [])
+
+  if (!playlist) return <main>
+    <h1>Playlist Runner</h1>
+    <p className='error'>There is no playlist to play, open this page from the popup on a YouTube video played from a playlist.</p>
+  </main>
+
+  const mapped = items.filter(({ id }) => results?.[id]?.status === 'mapped')
+  const skipped = items.filter(({ id }) => results?.[id] && results[id].status !== 'mapped')
+  const failed = skipped.filter(({ id }) => results?.[id]?.status === 'error' || results?.[id]?.status === 'rate-limited')
+
+  async function play(index: number) {
+    const result = results?.[mapped[index].id]
+    if (result?.status !== 'mapped') return
+    setCurrent(index)
+    setRunnerTabId(await openInRunnerTab(`${domainPrefix}${result.target.id}`, runnerTabId))
+  }
+
+  return <main>
+    <h1>{playlist.title ?? 'Playlist'} on Odysee</h1>
+    {!results
+      ? <p>Looking up {items.length} videos... {(progress * 100).toFixed(0)}%</p>
+      : <section className='controls'>
+        <span>
+          {current === null ? <span><span className='filled'>{mapped.length}</span> of {items.length} videos are on Odysee</span> : <span>Playing <span className='filled'>{current + 1}</span> of {mapped.length}</span>}
+        </span>
+        <div className='actions'>
+          <button type='button' className={`button ${current ? 'active' : 'disabled'}`} disabled={!current} onClick={() => play(current! - 1)}>Previous</button>
+          {current === null
+            ? <button type='button' className={`button ${mapped.length > 0 ? 'active' : 'disabled'}`} disabled={mapped.length === 0} onClick={() => play(0)}>Start</button>
+            : <button type='button' className={`button ${current < mapped.length - 1 ? 'active' : 'disabled'}`} disabled={current >= mapped.length - 1} onClick={() => play(current + 1)}>Next</button>}
+          <a className='button' href={`https://www.youtube.com/playlist?list=${encodeURIComponent(playlist.listId)}`} target='_blank' rel='noopener noreferrer'>Open on YouTube</a>
+        </div>
+      </section>}
+    {error && <p className='error'>{error}</p>}
+    {mapped.length > 0 && <section>
+      <label>On Odysee</label>
+      <div className='list'>
+        {mapped.map((item, index) => <div key={item.id} className={`list-item ${index === current ? 'current' : ''}`}>
+          <div className='details'>
+            <strong>{item.position}. {item.title ?? item.id}</strong>
+          </div>
+          <div className='actions'>
+            <button type='button' className='button' onClick={() => play(index)}>{index === current ? 'Playing' : 'Play'}</button>
+          </div>
+        </div>)}
+      </div>
+    </section>}
+    {skipped.length > 0 && <section>
+      <label>Skipped</label>
+      {failed.length > 0 && <div className='actions'>
+        <button type='button' className='button' onClick={() => lookUp(failed, 'network-only')}>Look up the {failed.length} failed ones again</button>
+      </div>}
+      <div className='list'>
+        {skipped.map((item) => {
+          const status = results![item.id].status as Exclude<ResolveStatus, 'mapped'>
+          return <div key={item.id} className='list-item'>
+            <div className='details'>
+              <span>{item.position}. {item.title ?? item.id}</span>
+              <small>{skipReasons[status]}</small>
+            </div>
+            <div className='actions'>
+              <a className='button' href={`https://www.youtube.com/watch?v=${item.id}&list=${encodeURIComponent(playlist.listId)}`} target='_blank' rel='noopener noreferrer'>Watch on YouTube</a>
+            </div>
+          </div>
+        })}
+      </div>
+    </section>}
+  </main>
+}
+
+render(<PlaylistRunnerPage />, document.getElementById('root')!)
@@ -1,13 +1,71 @@
 import { h, render } from 'preact'
-import { useState } from 'preact/hooks'
-import { odyseeUrlCache } from '../../modules/yt/urlCache'
+import { useEffect, useState } from 'preact/hooks'
+import { odyseeUrlCache } from '../../modules/yt/urlCacheClient'
 import { channelCache } from '../../modules/yt/channelCache'
+import { CacheStats, getCacheStats } from '../../modules/yt/caches'
+import { isListed, PageItems, setIgnored } from '../../modules/yt/ignoreList'
+import { describeRedirectRule, RedirectDecision, redirectActionLabels } from '../../modules/yt/redirectRules'
+import { getPlaylistRunnerUrl, Playlist } from '../../modules/yt/playlist'
 import { logger } from '../../modules/logger'
+import type { UrlResolverAnswer } from '../../modules/yt/urlResolve'
 import { setExtensionSetting, targetPlatformSettings, useExtensionSettings } from '../../settings'
 
+/** A hook to read which resolver answered last */
+function useLastUrlResolverAnswer() {
+  const [answer, setAnswer] = useState<UrlResolverAnswer | null>(null)
+  useEffect(() => {
+    const changeListener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === 'local' && changes.wolLastUrlResolverAnswer) setAnswer(changes.wolLastUrlResolverAnswer.newValue ?? null)
+    }
+    chrome.storage.onChanged.addListener(changeListener)
+    chrome.storage.local.get(['wolLastUrlResolverAnswer'], (o) => setAnswer(o.wolLastUrlResolverAnswer ?? null))
+    return () => chrome.storage.onChanged.removeListener(changeListener)
+  }, [])
+  return answer
+}
+
+/** A hook to read how big the resolver caches are, with a function to read it again */
+function useCacheStats() {
+  const [stats, setStats] = useState<CacheStats | null>(null)
+  const refresh = () => getCacheStats().then(setStats).catch(logger.error)
+  useEffect(() => { refresh() }, [])
+  return [stats, refresh] as const
+}
+
+/** A hook to ask the content script of the current tab about its page, null on pages it doesn't run on */
+function useCurrentPageAnswer<T>(method: 'getPageItems' | 'getRedirectDecision' | 'getPlaylist') {
+  const [answer, setAnswer] = useState<T | null>(null)
+  useEffect(() => {
+    chrome.tabs.query({ active: true, currentWindow: true }, ([tab]) => {
+      if (tab?.id === undefined) return
+      chrome.tabs.sendMessage(tab.id, { method }, (response?: T) => {
+        // Not a page the content script runs on
+        if (chrome.runtime.lastError) return
+        setAnswer(response ?? null)
+      })
+    })
+  }, [])
+  return answer
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
 function WatchOnOdyseePopup(params: {}) {
-  const { redirectVideo, redirectChannel, buttonVideoSub, buttonChannelSub, buttonVideoPlayer, buttonOverlay, resultsApplySelections } = useExtensionSettings()
+  const settings = useExtensionSettings()
+  const { redirectVideo, redirectChannel, redirectPlaylistItems, buttonVideoSub, buttonChannelSub, buttonVideoPlayer, buttonOverlay, resultsApplySelections } = settings
   let [loading, updateLoading] = useState(() => false)
+  const lastUrlResolverAnswer = useLastUrlResolverAnswer()
+  const [cacheStats, refreshCacheStats] = useCacheStats()
+  const pageItems = useCurrentPageAnswer<PageItems>('getPageItems')
+  const redirectDecision = useCurrentPageAnswer<RedirectDecision>('getRedirectDecision')
+  const currentPlaylist = useCurrentPageAnswer<{ playlist: Playlist, mapped: number }>('getPlaylist')
+  const firedRule = redirectDecision?.ruleIndex != null ? settings.redirectRules[redirectDecision.ruleIndex] : null
+  const pageChannel = [pageItems?.channel?.id, pageItems?.channel?.handle].filter((item): item is string => !!item)
+  const videoIgnored = !!pageItems?.video && isListed(settings, 'ignoredVideos', [pageItems.video])
+  const channelIgnored = isListed(settings, 'ignoredChannels', pageChannel)
 
   async function loads<T>(operation: Promise<T>) {
     try {
@@ -33,6 +91,10 @@ function WatchOnOdyseePopup(params: {}) {
       <main>
         <section>
           <label>Auto redirect when:</label>
+          {redirectDecision && <span>
+            On this page: <span className='filled'>{redirectActionLabels[redirectDecision.action]}</span>
+            {firedRule ? `, by rule ${redirectDecision.ruleIndex! + 1} (${describeRedirectRule(firedRule)})` : ', no rule matched so the toggles below decided'}
+          </span>}
           <div className='options'>
             <div class="toggle-option">
               <span>Playing a video</span>
@@ -40,6 +102,12 @@ function WatchOnOdyseePopup(params: {}) {
                 {redirectVideo ? 'Active' : 'Deactive'}
               </button>
             </div>
+            <div class="toggle-option">
+              <span>Playing a video from a playlist</span>
+              <button type='button' onClick={() => setExtensionSetting('redirectPlaylistItems', !redirectPlaylistItems)} className={`button ${redirectPlaylistItems ? 'active' : ''}`} aria-pressed={redirectPlaylistItems}>
+                {redirectPlaylistItems ? 'Active' : 'Deactive'}
+              </button>
+            </div>
             <div class="toggle-option">
               <span>Viewing a channel</span>
               <button type='button' onClick={() => setExtensionSetting('redirectChannel', !redirectChannel)} className={`button ${redirectChannel ? 'active' : ''}`} aria-pressed={redirectChannel}>
@@ -88,11 +156,59 @@ function WatchOnOdyseePopup(params: {}) {
             </div>
           </div>
         </section>
+        {(pageItems?.video || pageChannel.length > 0) && <section>
+          <label>Ignore on this page:</label>
+          <div className='options'>
+            {pageItems?.video && <div className="toggle-option">
+              <span>This video</span>
+              <button type='button' onClick={() => setIgnored('ignoredVideos', [pageItems.video!], !videoIgnored)} className={`button ${videoIgnored ? 'active' : ''}`} aria-pressed={videoIgnored}>
+                {videoIgnored ? 'Active' : 'Deactive'}
+              </button>
+            </div>}
+            {pageChannel.length > 0 && <div className="toggle-option">
+              <span>This channel</span>
+              <button type='button' onClick={() => setIgnored('ignoredChannels', pageChannel, !channelIgnored)} className={`button ${channelIgnored ? 'active' : ''}`} aria-pressed={channelIgnored}>
+                {channelIgnored ? 'Active' : 'Deactive'}
+              </button>
+            </div>}
+          </div>
+        </section>}
+        {currentPlaylist && <section>
+          <label>Playlist</label>
+          <span>
+            <span className='filled'>{currentPlaylist.mapped}</span> of {currentPlaylist.playlist.items.length} videos of {currentPlaylist.playlist.title ?? 'this playlist'} are on Odysee
+          </span>
+          <button type='button' onClick={() => chrome.tabs.create({ url: getPlaylistRunnerUrl(currentPlaylist.playlist) })} className={`button ${currentPlaylist.mapped > 0 ? 'active' : 'disabled'}`} disabled={currentPlaylist.mapped === 0}>
+            Play on Odysee
+          </button>
+        </section>}
+        {lastUrlResolverAnswer && <section>
+          <label>Resolver</label>
+          <span>
+            Last answered by <span className='filled'>{lastUrlResolverAnswer.displayName}</span>
+            {lastUrlResolverAnswer.failedOver && ' (fallback)'} at {new Date(lastUrlResolverAnswer.at).toLocaleTimeString()}
+          </span>
+        </section>}
         <section>
           <label>Tools</label>
-          <button type='button' onClick={() => loads(Promise.all([odyseeUrlCache.clearAll(), channelCache.clearAll()]))} className={`button active`}>
+          {cacheStats && <span>
+            Cache holds <span className='filled'>{cacheStats.entries}</span> entries{cacheStats.bytes !== null && `, about ${formatBytes(cacheStats.bytes)}`}
+          </span>}
+          <button type='button' onClick={() => loads(Promise.all([odyseeUrlCache.clearAll(), channelCache.clearAll()]).finally(refreshCacheStats))} className={`button active`}>
             Clear Resolver Cache
           </button>
+          <button type='button' onClick={() => chrome.tabs.create({ url: chrome.runtime.getURL('pages/cache/index.html') })} className={`button active`}>
+            Inspect Resolver Cache
+          </button>
+          <button type='button' onClick={() => chrome.tabs.create({ url: chrome.runtime.getURL('pages/import/index.html') })} className={`button active`}>
+            Import Subscriptions
+          </button>
+          <button type='button' onClick={() => chrome.tabs.create({ url: chrome.runtime.getURL('pages/YTtoLBRY/index.html') })} className={`button active`}>
+            Convert YouTube Links
+          </button>
+          <button type='button' onClick={() => chrome.runtime.openOptionsPage()} className={`button active`}>
+            Options
+          </button>
         </section>
       </main>
     }
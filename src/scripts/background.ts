@@ -1,23 +1,49 @@
-import { resolveById, resolveByIdForce } from "../modules/yt/urlResolve"
+import type { CachePolicy, ResolveResults, YtUrlResolveItem } from "../modules/yt/urlResolve"
+import { batchResolveById } from "../modules/yt/resolveBatcher"
+import { channelCache } from "../modules/yt/channelCache"
+import { channelCacheMethods, ChannelCacheMethod } from "../modules/yt/channelCacheClient"
+import { odyseeUrlCache } from "../modules/yt/urlCache"
+import { urlCacheMethods, UrlCacheMethod } from "../modules/yt/urlCacheClient"
 import { logger } from "../modules/logger"
+import { getChangedOverrideIds } from "../modules/yt/overrides"
+import type { RedirectMode } from "../settings"
 
-const onGoingOdyseePathnameRequest: Record<string, ReturnType<typeof resolveById>> = {}
-const onGoingOdyseePathnameRequestForce: Record<string, ReturnType<typeof resolveByIdForce>> = {}
 const openTabGuard = new Map<string, number>() // href -> lastOpenTs
 // Track worker start time to distinguish pre-reload vs post-reload messages
 const workerStartAt = Date.now()
 try { chrome.storage.local.set({ wolLastWorkerStartAt: workerStartAt }) } catch {}
 
-chrome.runtime.onMessage.addListener(({ method, data }, _sender, sendResponse) => {
-  function resolve(result: Awaited<ReturnType<typeof resolveById>>) {
+// Channel targets cached before an override was set would keep showing the old mapping.
+// Open YT tabs drop them themselves before resolving again, this covers the ones visited later.
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== 'local' || !changes.mappingOverrides) return
+  for (const id of getChangedOverrideIds(changes.mappingOverrides)) {
+    channelCache.deleteUC(id).catch((error) => logger.warn('Could not drop the cached channel of', id, error))
+  }
+})
+
+function openByMode(href: string, mode: RedirectMode, tabId: number | undefined) {
+  if (mode === 'same-tab' && tabId !== undefined) chrome.tabs.update(tabId, { url: href })
+  else chrome.tabs.create({ url: href, active: mode !== 'background-tab' })
+}
+
+chrome.runtime.onMessage.addListener(({ method, data }, sender, sendResponse) => {
+  function resolve(result: ResolveResults) {
     sendResponse(JSON.stringify(result))
   }
+  function reject(error: unknown) {
+    sendResponse(`error: ${(error as any).toString()}`)
+    logger.error(error)
+  }
   (async () => {
 
     switch (method) {
       case 'openTab':
         {
-          const { href, reason, clickedAt }: { href: string, reason?: 'user' | 'auto', clickedAt?: number } = JSON.parse(data)
+          const { href, reason, clickedAt, mode = 'new-tab' }: { href: string, reason?: 'user' | 'auto', clickedAt?: number, mode?: RedirectMode } = JSON.parse(data)
+          // Clicks always open a new tab, only auto redirects follow the redirect mode
+          const openMode: RedirectMode = reason === 'auto' ? mode : 'new-tab'
+          const tabId = sender.tab?.id
           try {
             // Fetch recent direct-opens and last worker start time
             const recentDirectOpens: Record<string, number> = await new Promise((resolve) => {
@@ -50,7 +76,7 @@ chrome.runtime.onMessage.addListener(({ method, data }, _sender, sendResponse) =
             if (now - last < 1200) break // debounce duplicate open requests
             openTabGuard.set(href, now)
             setTimeout(() => openTabGuard.delete(href), 10000)
-            chrome.tabs.create({ url: href })
+            openByMode(href, openMode, tabId)
             // Record successful open to suppress post-reload replays
             try {
               chrome.storage.local.get(['wolRecentDirectOpens'], (o) => {
@@ -63,35 +89,41 @@ chrome.runtime.onMessage.addListener(({ method, data }, _sender, sendResponse) =
             } catch {}
           } catch (e) {
             logger.warn('openTab error', e)
-            chrome.tabs.create({ url: href })
+            openByMode(href, openMode, tabId)
           }
         }
         break
+      // data is [items, cachePolicy?], resolveUrlForce only changes the default policy
+      // Answers with the status of each ID, failed lookups included so the page can offer a retry
       case 'resolveUrl':
+      case 'resolveUrlForce':
         try {
-          const params: Parameters<typeof resolveById> = JSON.parse(data)
-          // Don't create a new Promise for same ID until on going one is over.
-          const promise = onGoingOdyseePathnameRequest[data] ?? (onGoingOdyseePathnameRequest[data] = resolveById(...params))
-          resolve(await promise)
+          const [items, cachePolicy = method === 'resolveUrlForce' ? 'network-only' : 'cache-first']: [YtUrlResolveItem[], CachePolicy?] = JSON.parse(data)
+          // IDs already being resolved for another tab are awaited instead of requested again
+          resolve(await batchResolveById(items, cachePolicy))
         } catch (error) {
-          sendResponse(`error: ${(error as any).toString()}`)
-          logger.error(error)
+          reject(error)
         }
-        finally {
-          delete onGoingOdyseePathnameRequest[data]
+        break
+      case 'channelCache':
+        try {
+          const { method: cacheMethod, args }: { method: ChannelCacheMethod, args: any[] } = JSON.parse(data)
+          if (!channelCacheMethods.includes(cacheMethod)) throw new Error(`Unknown channel cache method: ${cacheMethod}`)
+          const result = await (channelCache[cacheMethod] as (...args: any[]) => Promise<unknown>)(...args)
+          sendResponse(JSON.stringify({ result }))
+        } catch (error) {
+          reject(error)
         }
         break
-      case 'resolveUrlForce':
+      // Pages change the URL cache here, where its memory layer is
+      case 'urlCache':
         try {
-          const params: Parameters<typeof resolveByIdForce> = JSON.parse(data)
-          const key = `force:${data}`
-          const promise = onGoingOdyseePathnameRequestForce[key] ?? (onGoingOdyseePathnameRequestForce[key] = resolveByIdForce(...params))
-          resolve(await promise)
+          const { method: cacheMethod, args }: { method: UrlCacheMethod, args: any[] } = JSON.parse(data)
+          if (!urlCacheMethods.includes(cacheMethod)) throw new Error(`Unknown URL cache method: ${cacheMethod}`)
+          const result = await (odyseeUrlCache[cacheMethod] as (...args: any[]) => Promise<unknown>)(...args)
+          sendResponse(JSON.stringify({ result }))
         } catch (error) {
-          sendResponse(`error: ${(error as any).toString()}`)
-          logger.error(error)
-        } finally {
-          delete onGoingOdyseePathnameRequestForce[`force:${data}`]
+          reject(error)
         }
         break
     }
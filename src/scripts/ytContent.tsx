@@ -1,9 +1,15 @@
 import { h, render, Fragment } from 'preact'
+import { useState } from 'preact/hooks'
 import { parseYouTubeURLTimeString } from '../modules/yt'
-import type { resolveById, ResolveUrlTypes } from '../modules/yt/urlResolve'
-import { getExtensionSettingsAsync, getSourcePlatfromSettingsFromHostname, getTargetPlatfromSettingsEntiries, SourcePlatform, sourcePlatfromSettings, TargetPlatform, targetPlatformSettings } from '../settings';
+import type { CachePolicy, ResolveFailure, ResolveResults, ResolveUrlTypes, YtUrlResolveItem } from '../modules/yt/urlResolve'
+import { getExtensionSettingsAsync, isExtensionStateKey, getSourcePlatfromSettingsFromHostname, getTargetPlatfromSettingsEntiries, RedirectPageType, SourcePlatform, sourcePlatfromSettings, TargetPlatform, targetPlatformSettings } from '../settings';
 import { logger } from '../modules/logger'
-import { channelCache } from '../modules/yt/channelCache'
+import { channelCache, deleteLegacyPageChannelCache } from '../modules/yt/channelCacheClient'
+import { getChangedOverrideIds, parseOdyseePath, setMappingOverride } from '../modules/yt/overrides'
+import { createIgnoreMatcher, PageItems } from '../modules/yt/ignoreList'
+import { decideRedirect, RedirectDecision } from '../modules/yt/redirectRules'
+import type { Playlist, PlaylistItem } from '../modules/yt/playlist'
+import type { ResolverCircuitState } from '../modules/yt/circuitBreaker'
 
 (async () => {
   const sleep = (t: number) => new Promise(resolve => setTimeout(resolve, t))
@@ -25,6 +31,8 @@ import { channelCache } from '../modules/yt/channelCache'
 
   const targetPlatforms = getTargetPlatfromSettingsEntiries()
   const settings = await getExtensionSettingsAsync()
+  // The channel cache lives in the extension now, drop the copy older versions left in youtube.com's origin
+  deleteLegacyPageChannelCache()
   // Debug control (set localStorage.wolDebug = '1' to enable verbose logs)
   const WOL_DEBUG = (() => { try { return localStorage.getItem('wolDebug') === '1' } catch { return false } })()
   const dbg = (...args: any[]) => { if (WOL_DEBUG) try { logger.log(...args) } catch {} }
@@ -42,6 +50,15 @@ import { channelCache } from '../modules/yt/channelCache'
   let lastResolveSig: string | null = null
   let lastResolved: Record<string, Target | null> = {}
   let lastResolveAt = 0
+  // Sources whose last lookup failed, shown with a retry button instead of looking like they aren't on Odysee
+  const failedSources = new Map<string, ResolveFailure>()
+  // Channels and videos on the user's ignore lists get no buttons, overlays, chips or redirects
+  let ignoreMatcher = createIgnoreMatcher(settings, channelCache)
+  // What the redirect rules decided for the page, for the popup
+  let lastRedirectDecision: { href: string, decision: RedirectDecision } | null = null
+  // The playlist the video is played from, with how many of its items are on Odysee
+  let currentPlaylist: { playlist: Playlist, sig: string, mapped: number } | null = null
+  let resolverRetryTimer: number | null = null
   let lastVideoPageChannelId: string | null = null
   let lastShortsChannelId: string | null = null
   let shortsNavigatedAt: number = 0
@@ -58,6 +75,34 @@ import { channelCache } from '../modules/yt/channelCache'
   const redirectedUrls = new Set<string>()
   let lastRedirectTime = 0
 
+  // Videos and channels this tab left for Odysee in same-tab mode, by `type:id` with when it left.
+  // Going back to one shows it as is, the page is loaded again so it's kept in the tab's sessionStorage.
+  const SAME_TAB_REDIRECTS_KEY = 'wolSameTabRedirects'
+  // Coming back later, or opening the page again some other way, redirects as usual
+  const SAME_TAB_RETURN_MS = 10 * 60 * 1000
+  function readSameTabRedirects(): { key: string, at: number }[] {
+    try {
+      const entries = JSON.parse(sessionStorage.getItem(SAME_TAB_REDIRECTS_KEY) ?? '[]')
+      const now = Date.now()
+      return Array.isArray(entries) ? entries.filter((entry) => typeof entry?.key === 'string' && typeof entry.at === 'number' && now - entry.at < SAME_TAB_RETURN_MS) : []
+    } catch { return [] }
+  }
+  function rememberSameTabRedirect(key: string) {
+    try { sessionStorage.setItem(SAME_TAB_REDIRECTS_KEY, JSON.stringify([...readSameTabRedirects().filter((entry) => entry.key !== key), { key, at: Date.now() }].slice(-50))) } catch {}
+  }
+  // Only the page the tab went back or forward to is a return from Odysee, YouTube's own navigations after it aren't,
+  // even though the document's navigation type stays back_forward
+  const historyPageOf = (url: string) => {
+    const { pathname, searchParams } = new URL(url)
+    return `${pathname}?v=${searchParams.get('v') ?? ''}`
+  }
+  let historyReturnPage = (performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined)?.type === 'back_forward' ? historyPageOf(location.href) : null
+  window.addEventListener('pageshow', (event) => { if (event.persisted) historyReturnPage = historyPageOf(location.href) })
+  function isSameTabReturn(key: string) {
+    if (historyReturnPage !== historyPageOf(location.href)) return false
+    return readSameTabRedirects().some((entry) => entry.key === key)
+  }
+
   // Single-shot retry guard for channel pages when initial resolve returns null
   let channelResolveRetryGen: number | null = null
 
@@ -553,8 +598,11 @@ import { channelCache } from '../modules/yt/channelCache'
   chrome.storage.onChanged.addListener(async (changes, areaName) => {
     try {
       if (areaName !== 'local') return
-      Object.assign(settings, Object.fromEntries(Object.entries(changes).map(([key, change]) => [key, change.newValue])))
-      settingsDirty = true
+      const settingChanges = Object.entries(changes).filter(([key]) => !isExtensionStateKey(key))
+      if (settingChanges.length > 0) {
+        Object.assign(settings, Object.fromEntries(settingChanges.map(([key, change]) => [key, change.newValue])))
+        settingsDirty = true
+      }
 
       // Handle overlay setting changes
       let needsButtonUpdate = false
@@ -563,6 +611,35 @@ import { channelCache } from '../modules/yt/channelCache'
 
       let needsResultsEnforcementUpdate = false
       for (const [key, change] of Object.entries(changes)) {
+        // Another tab got an answer, no need to wait for our own retry
+        if (key === 'wolResolverCircuit' && !(change.newValue as ResolverCircuitState | undefined)?.openUntil && failedSources.size > 0) {
+          scheduleProcessCurrentPage(0)
+        }
+        // Forget what the page knew about overridden IDs, so the override shows right away
+        if (key === 'mappingOverrides') {
+          const ids = getChangedOverrideIds(change)
+          // The cached channel targets have the old mapping, they're dropped before anything is resolved again
+          await Promise.all(ids.map((id) => channelCache.deleteUC(id).catch((error) => logger.warn('Could not drop the cached channel of', id, error))))
+          for (const id of ids) {
+            ucResolvePageCache.delete(id)
+            resolvedLocal.delete(`channel:${id}`)
+            resolvedLocal.delete(`video:${id}`)
+          }
+          lastResolveAt = 0
+          scheduleProcessCurrentPage(0)
+        }
+        // Redraw everything, both items that got on a list and ones that got off it
+        if (key === 'ignoredChannels' || key === 'ignoredVideos') {
+          ignoreMatcher = createIgnoreMatcher(settings, channelCache)
+          await cleanupOverlays()
+          document.querySelectorAll('a[data-wol-inline-channel], [data-wol-results-channel-btn]').forEach(el => el.remove())
+          document.querySelectorAll('ytd-channel-renderer[data-wol-channel-button]')
+            .forEach(el => (el as HTMLElement).removeAttribute('data-wol-channel-button'))
+          triggerCleanupResultsChannelButtons()
+          triggerCleanupResultsVideoChips()
+          try { lastEnhanceTime = 0; lastEnhanceUrl = ''; lastResultsChipsSig = '' } catch {}
+          needsButtonUpdate = true
+        }
         if (key === 'buttonOverlay') {
           needsOverlayUpdate = true
           buttonOverlayNewValue = change.newValue as boolean
@@ -710,7 +787,7 @@ import { channelCache } from '../modules/yt/channelCache'
         }
         
         // Handle redirect setting changes that may affect current page
-        if (key === 'redirectVideo' || key === 'redirectChannel') {
+        if (key === 'redirectVideo' || key === 'redirectChannel' || key === 'redirectRules' || key === 'redirectPlaylistItems') {
           needsButtonUpdate = true
           // Clear redirect tracking when settings are enabled to allow immediate redirect
           if ((change as any)?.newValue === true) {
@@ -788,6 +865,32 @@ import { channelCache } from '../modules/yt/channelCache'
     }
   })
 
+  // Rules that look at the tab's focus decide again when it changes
+  const onFocusChange = () => {
+    if (settings.redirectRules?.some((rule) => rule.focused !== null)) scheduleProcessCurrentPage(0)
+  }
+  window.addEventListener('focus', onFocusChange)
+  document.addEventListener('visibilitychange', onFocusChange)
+
+  // The popup asks what the page is about, to offer putting it on an ignore list
+  chrome.runtime.onMessage.addListener(({ method }, _sender, sendResponse) => {
+    if (method === 'getRedirectDecision') return sendResponse(lastRedirectDecision?.href === location.href ? lastRedirectDecision.decision : null)
+    if (method === 'getPlaylist') {
+      resolveCurrentPlaylist()
+        .catch((error) => logger.error(error))
+        .then(() => sendResponse(currentPlaylist?.playlist.listId === new URL(location.href).searchParams.get('list') ? { playlist: currentPlaylist.playlist, mapped: currentPlaylist.mapped } : null))
+      return true
+    }
+    if (method !== 'getPageItems') return
+    const url = new URL(location.href)
+    const video = (url.pathname === '/watch' ? url.searchParams.get('v') : url.pathname.match(/^\/(?:shorts|live)\/([\w-]{11})/)?.[1]) ?? null
+    const handle = video ? null : url.pathname.match(/^\/(@[^/]+)/)?.[1] ?? null
+    const onChannelPage = /^\/(@|channel\/|c\/|user\/)/.test(url.pathname)
+    const channelId = video ? lastVideoPageChannelId : onChannelPage ? url.pathname.match(/^\/channel\/(UC[\w-]{22})/)?.[1] ?? lastChannelPageUC : null
+    const items: PageItems = { video, channel: channelId || handle ? { id: channelId, handle } : null }
+    sendResponse(items)
+  })
+
   const buttonMountPoint = document.createElement('div')
   buttonMountPoint.style.display = 'inline-flex'
 
@@ -1027,8 +1130,124 @@ import { channelCache } from '../modules/yt/channelCache'
     return q
   }
 
+  /** Stands in for the button when the lookup failed, so it doesn't look like the creator isn't on Odysee */
+  function ResolveFailedButton({ failure, compact, onRetry }: { failure: ResolveFailure, compact?: boolean, onRetry: () => void }) {
+    const platform = targetPlatformSettings[settings.targetPlatform]
+    const title = failure.status === 'rate-limited'
+      ? `The ${platform.displayName} resolver is busy, retrying at ${new Date(failure.retryAt).toLocaleTimeString()}. Click to retry now`
+      : `Could not check ${platform.displayName}. Click to retry`
+    return <div style={{ display: 'flex', height: '100%', alignItems: 'center', minWidth: 'fit-content', marginRight: '6px' }}>
+      <button type='button' title={title}
+        onClick={(e) => { e.preventDefault(); e.stopPropagation(); onRetry() }}
+        style={{
+          display: 'flex', alignItems: 'center', gap: compact ? '0' : '6px', borderRadius: '16px', padding: compact ? '0 4px' : '0 12px', minHeight: '36px',
+          boxSizing: 'border-box', lineHeight: 'normal', fontWeight: 500, fontSize: compact ? '0' : '14px', border: '0',
+          color: 'var(--yt-spec-text-secondary, #aaa)', backgroundColor: 'var(--yt-spec-badge-chip-background, rgba(128, 128, 128, 0.2))',
+          cursor: 'pointer', whiteSpace: 'nowrap'
+        }}>
+        <img src={platform.button.icon} height={20} style={{ display: 'block', opacity: 0.5, filter: 'grayscale(1)' }} />
+        {!compact && <span>Retry</span>}
+      </button>
+    </div>
+  }
+
+  /**
+   * Keeps what was typed in the editor as the channel's override
+   * @returns why it wasn't kept, null once it is
+   */
+  async function saveChannelOverride(source: Source, answer: string | null): Promise<string | null> {
+    // null takes the override off, an empty answer never shows a button for the channel
+    if (answer === null) {
+      await setMappingOverride(source.id, null)
+      return null
+    }
+    if (!answer.trim()) {
+      await setMappingOverride(source.id, { type: 'channel', odyseePath: null })
+      return null
+    }
+    const odyseePath = parseOdyseePath(answer)
+    if (!odyseePath) return `That is not a ${targetPlatformSettings[settings.targetPlatform].displayName} link or path`
+    await setMappingOverride(source.id, { type: 'channel', odyseePath })
+    return null
+  }
+
+  const overrideButtonStyle: h.JSX.CSSProperties = {
+    display: 'flex', alignItems: 'center', justifyContent: 'center', borderRadius: '16px', minWidth: '36px', minHeight: '36px', padding: '0 12px',
+    boxSizing: 'border-box', border: '0', fontSize: '14px', fontWeight: 500, lineHeight: 'normal', cursor: 'pointer', whiteSpace: 'nowrap',
+    color: 'var(--yt-spec-text-primary, whitesmoke)', backgroundColor: 'var(--yt-spec-badge-chip-background, rgba(128, 128, 128, 0.2))'
+  }
+
+  /** Where the YouTube channel goes on Odysee, edited in place and kept as an override */
+  function ChannelOverrideEditor({ source, target, onClose }: { source: Source, target?: Target, onClose: () => void }) {
+    const platform = targetPlatformSettings[settings.targetPlatform]
+    const override = settings.mappingOverrides?.[source.id]
+    const [value, setValue] = useState(override ? override.odyseePath ?? '' : target?.odyseePathname ?? '')
+    const [error, setError] = useState<string | null>(null)
+    const [saving, setSaving] = useState(false)
+
+    async function save(answer: string | null) {
+      setSaving(true)
+      try {
+        const problem = await saveChannelOverride(source, answer)
+        setError(problem)
+        if (!problem) onClose()
+      } catch (err) {
+        logger.error(err)
+        setError('Could not save it, try again')
+      } finally {
+        setSaving(false)
+      }
+    }
+
+    return <form
+      style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '6px', marginRight: '6px' }}
+      onSubmit={(e) => { e.preventDefault(); e.stopPropagation(); save(value) }}
+      onClick={(e) => e.stopPropagation()}>
+      <input type='text' value={value} disabled={saving} placeholder='Link or @name:id, empty for no button'
+        title={`${platform.displayName} channel for this YouTube channel, leave it empty to never show a button for it`}
+        ref={(input) => input?.focus()}
+        // YouTube's keyboard shortcuts would act on what's typed
+        onKeyDown={(e) => { e.stopPropagation(); if (e.key === 'Escape') onClose() }}
+        onInput={(e) => setValue(e.currentTarget.value)}
+        style={{
+          minWidth: '16em', minHeight: '36px', padding: '0 12px', boxSizing: 'border-box', borderRadius: '16px', fontSize: '14px',
+          border: `1px solid ${error ? 'var(--yt-spec-brand-button-background, #f33)' : 'var(--yt-spec-10-percent-layer, rgba(128, 128, 128, 0.4))'}`,
+          color: 'var(--yt-spec-text-primary, whitesmoke)', backgroundColor: 'var(--yt-spec-general-background-a, transparent)'
+        }} />
+      <button type='submit' disabled={saving} style={{ ...overrideButtonStyle, color: 'whitesmoke', backgroundImage: platform.theme }}>Save</button>
+      {override && <button type='button' disabled={saving} title="Use the resolver's answer again" style={overrideButtonStyle} onClick={() => save(null)}>Reset</button>}
+      <button type='button' disabled={saving} style={overrideButtonStyle} onClick={onClose}>Cancel</button>
+      {error && <span style={{ fontSize: '12px', color: 'var(--yt-spec-brand-button-background, #f33)' }}>{error}</span>}
+    </form>
+  }
+
+  function ChannelOverrideButton({ source, target }: { source: Source, target?: Target }) {
+    const platform = targetPlatformSettings[settings.targetPlatform]
+    const override = settings.mappingOverrides?.[source.id]
+    const [editing, setEditing] = useState(false)
+    if (editing) return <ChannelOverrideEditor source={source} target={target} onClose={() => setEditing(false)} />
+    return <div style={{ display: 'flex', height: '100%', alignItems: 'center', minWidth: 'fit-content', marginRight: '6px' }}>
+      <button type='button'
+        title={override ? `You set where this channel goes on ${platform.displayName}, click to change it` : `Set where this channel goes on ${platform.displayName}`}
+        onClick={(e) => { e.preventDefault(); e.stopPropagation(); setEditing(true) }}
+        style={{
+          display: 'flex', alignItems: 'center', justifyContent: 'center', borderRadius: '16px', minWidth: '36px', minHeight: '36px', padding: '0',
+          boxSizing: 'border-box', border: '0', fontSize: '16px', lineHeight: 'normal', cursor: 'pointer',
+          color: override ? 'whitesmoke' : 'var(--yt-spec-text-secondary, #aaa)',
+          backgroundColor: override ? 'transparent' : 'var(--yt-spec-badge-chip-background, rgba(128, 128, 128, 0.2))',
+          backgroundImage: override ? platform.theme : 'none'
+        }}>
+        ✎
+      </button>
+    </div>
+  }
+
   function WatchOnOdyseeButtons({ source, targets, compact, fillHeight }: { source?: Source, targets?: Target[], compact?: boolean, fillHeight?: boolean }) {
-    if (!source || !targets || targets.length === 0) return null
+    const failure = source && failedSources.get(source.id)
+    if (source && failure && (!targets || targets.length === 0)) return <ResolveFailedButton failure={failure} compact={compact} onRetry={() => retryResolve(source)} />
+    // Channel pages get a way to correct the mapping, or to add one the resolver doesn't have
+    const overrideButton = source?.type === 'channel' && !compact ? <ChannelOverrideButton source={source} target={targets?.[0]} /> : null
+    if (!source || !targets || targets.length === 0) return overrideButton
     return <div style={{ display: 'inline-flex' }}>
       {targets.map((target) => {
     const url = getOdyseeUrlByTarget(target)
@@ -1083,6 +1302,7 @@ import { channelCache } from '../modules/yt/channelCache'
           </div>
         )
       })}
+      {overrideButton}
     </div>
   }
 
@@ -1161,6 +1381,10 @@ import { channelCache } from '../modules/yt/channelCache'
       logger.log('Watch on Odysee: updateButtons', info)
       dbg(`[CHANNEL-DEBUG] updateButtons called with:`, info)
     } catch {}
+    if (params && (isSourceIgnored(params.source) || (params.source.type === 'video' && ignoreMatcher.isIgnored(lastVideoPageChannelId)))) {
+      dbg(`[CHANNEL-DEBUG] updateButtons: page is on an ignore list`)
+      return updateButtons(null)
+    }
     if (!params) {
       dbg(`[CHANNEL-DEBUG] updateButtons: clearing buttons (no params)`)
       render(<WatchOnOdyseeButtons />, buttonMountPoint)
@@ -1969,12 +2193,12 @@ import { channelCache } from '../modules/yt/channelCache'
       // 3) If fetch provided a UC, prefer it; also fix caches if they disagree
       if (pageUC && pageUC.startsWith('UC')) {
         if (cacheUC && cacheUC !== pageUC) {
-          try { channelCache.putHandle(handle, pageUC) } catch {}
-          try { channelCache.putYtUrl(ytUrl, pageUC) } catch {}
+          channelCache.putHandle(handle, pageUC).catch(err => { if (WOL_DEBUG) dbg('[CACHE] Error persisting handle:', err) })
+          channelCache.putYtUrl(ytUrl, pageUC).catch(err => { if (WOL_DEBUG) dbg('[CACHE] Error persisting ytUrl:', err) })
           dbg('[CHANNEL-DEBUG] Updated handle caches for', handle, 'from', cacheUC, 'to', pageUC)
         } else if (!cacheUC) {
-          try { channelCache.putHandle(handle, pageUC) } catch {}
-          try { channelCache.putYtUrl(ytUrl, pageUC) } catch {}
+          channelCache.putHandle(handle, pageUC).catch(err => { if (WOL_DEBUG) dbg('[CACHE] Error persisting handle:', err) })
+          channelCache.putYtUrl(ytUrl, pageUC).catch(err => { if (WOL_DEBUG) dbg('[CACHE] Error persisting ytUrl:', err) })
         }
         return pageUC
       }
@@ -1988,19 +2212,27 @@ import { channelCache } from '../modules/yt/channelCache'
     }
   }
 
-  async function getTargetsBySources(...sources: Source[]) {
-    const params: Parameters<typeof requestResolveById>[0] = sources.map((source) => ({ id: source.id, type: source.type }))
-    const platform = targetPlatformSettings[settings.targetPlatform]
-    const results = await requestResolveById(params)
-    if (!results) {
-      // Extension context invalidated or other error
-      return Object.fromEntries(sources.map(source => [source.id, null]))
-    }
+  /** Whether the item is on an ignore list, videos also are when the page says their channel is */
+  function isSourceIgnored(source: { id: string, type: ResolveUrlTypes }) {
+    if (ignoreMatcher.isEmpty()) return false
+    if (ignoreMatcher.isIgnored(source.id)) return true
+    return source.type === 'video' && ignoreMatcher.isIgnored(getInitialDataMappings().videoToUC.get(source.id))
+  }
 
+  /** Turns the statuses into targets, and keeps track of the sources whose lookup failed */
+  function getTargetsFromResults(sources: Source[], results: ResolveResults) {
+    const platform = targetPlatformSettings[settings.targetPlatform]
     const targets: Record<string, Target | null> = Object.fromEntries(
       sources.map((source) => {
+        // Ignored items are left without a target, so nothing gets shown for them
+        if (isSourceIgnored(source)) {
+          failedSources.delete(source.id)
+          return [source.id, null]
+        }
         const result = results[source.id]
-        if (!result) return [
+        if (result?.status === 'error' || result?.status === 'rate-limited') failedSources.set(source.id, result)
+        else failedSources.delete(source.id)
+        if (result?.status !== 'mapped') return [
           source.id,
           null
         ]
@@ -2008,8 +2240,8 @@ import { channelCache } from '../modules/yt/channelCache'
         return [
           source.id,
           {
-            type: result.type,
-            odyseePathname: result.id,
+            type: result.target.type,
+            odyseePathname: result.target.id,
             platform,
             time: source.time
           }
@@ -2019,11 +2251,22 @@ import { channelCache } from '../modules/yt/channelCache'
 
     return targets
   }
+
+  async function getTargetsBySources(...sources: Source[]) {
+    const params: Parameters<typeof requestResolveById>[0] = sources.map((source) => ({ id: source.id, type: source.type }))
+    // Expired answers are still good enough for the buttons, the background refreshes them for next time
+    const results = await requestResolveById(params, 'stale-while-revalidate')
+    if (!results) {
+      // Extension context invalidated or other error
+      return Object.fromEntries(sources.map(source => [source.id, null]))
+    }
+    return getTargetsFromResults(sources, results)
+  }
   // We should get this from background, so the caching works and we don't get errors in the future if yt decides to impliment CORS
-  async function requestResolveById(...params: Parameters<typeof resolveById>): Promise<ReturnType<typeof resolveById> | null> {
+  async function requestResolveById(items: YtUrlResolveItem[], cachePolicy: CachePolicy = 'cache-first'): Promise<ResolveResults | null> {
     try {
       const response = await new Promise<string | null | 'error'>((resolve, reject) => {
-        chrome.runtime.sendMessage({ method: 'resolveUrl', data: JSON.stringify(params) }, (response) => {
+        chrome.runtime.sendMessage({ method: 'resolveUrl', data: JSON.stringify([items, cachePolicy]) }, (response) => {
           if (chrome.runtime.lastError) {
             reject(new Error(chrome.runtime.lastError.message))
           } else {
@@ -2032,7 +2275,7 @@ import { channelCache } from '../modules/yt/channelCache'
         })
       })
     if (response?.startsWith('error:')) {
-        logger.error("Background error on:", params)
+        logger.error(`Background error on (${cachePolicy}):`, items)
       throw new Error(`Background error. ${response ?? ''}`)
     }
     return response ? JSON.parse(response) : null
@@ -2047,47 +2290,22 @@ import { channelCache } from '../modules/yt/channelCache'
     }
   }
 
-  // Force-resolve variant that bypasses background cache for the given ids
-  async function requestResolveByIdForce(...params: Parameters<typeof resolveById>): Promise<ReturnType<typeof resolveById> | null> {
+  async function getTargetsBySourcesForce(...sources: Source[]) {
+    const params: Parameters<typeof requestResolveById>[0] = sources.map((source) => ({ id: source.id, type: source.type }))
+    const results = await requestResolveById(params, 'network-only')
+    if (!results) return Object.fromEntries(sources.map(source => [source.id, null]))
+    return getTargetsFromResults(sources, results)
+  }
+
+  /** Looks the sources up again past the cache, then redraws the page with the answer */
+  async function retryResolve(...sources: Source[]) {
     try {
-      const response = await new Promise<string | null | 'error'>((resolve, reject) => {
-        chrome.runtime.sendMessage({ method: 'resolveUrlForce', data: JSON.stringify(params) }, (response) => {
-          if (chrome.runtime.lastError) {
-            reject(new Error(chrome.runtime.lastError.message))
-          } else {
-            resolve(response)
-          }
-        })
-      })
-      if (response?.startsWith('error:')) {
-        logger.error("Background error on (force):", params)
-        throw new Error(`Background error. ${response ?? ''}`)
-      }
-      return response ? JSON.parse(response) : null
+      await getTargetsBySourcesForce(...sources)
     } catch (error) {
-      if (error instanceof Error && error.message.includes('Extension context invalidated')) {
-        logger.warn('Extension context invalidated - please reload the page to re-enable Watch on Odysee functionality (force)')
-        extensionContextInvalidated = true
-        return null
-      }
-      logger.error("Error communicating with background script (force):", error)
-      throw error
+      logger.error(error)
     }
-  }
-
-  async function getTargetsBySourcesForce(...sources: Source[]) {
-    const params: Parameters<typeof requestResolveByIdForce>[0] = sources.map((source) => ({ id: source.id, type: source.type }))
-    const platform = targetPlatformSettings[settings.targetPlatform]
-    const results = await requestResolveByIdForce(params)
-    if (!results) return Object.fromEntries(sources.map(source => [source.id, null]))
-    const targets: Record<string, Target | null> = Object.fromEntries(
-      sources.map((source) => {
-        const result = results[source.id]
-        if (!result) return [source.id, null]
-        return [source.id, { type: result.type, odyseePathname: result.id, platform, time: source.time }]
-      })
-    )
-    return targets
+    lastResolveAt = 0
+    scheduleProcessCurrentPage(0)
   }
 
   // Request new tab
@@ -2124,7 +2342,9 @@ import { channelCache } from '../modules/yt/channelCache'
     }
 
     try {
-      chrome.runtime.sendMessage({ method: 'openTab', data: JSON.stringify({ href: url.href, reason, clickedAt: now }) }, () => {
+      // Only auto redirects follow the redirect mode, the background opens clicks in a new tab
+      const mode = reason === 'auto' ? settings.redirectMode : undefined
+      chrome.runtime.sendMessage({ method: 'openTab', data: JSON.stringify({ href: url.href, reason, clickedAt: now, mode }) }, () => {
         if (chrome.runtime.lastError) {
           // Background/service worker not available. Do not directly open.
           // Suppress silently to avoid duplicate opens after reload.
@@ -2233,6 +2453,10 @@ import { channelCache } from '../modules/yt/channelCache'
       })
     }
 
+    document.querySelectorAll('[data-wol-retry]').forEach(el => {
+      try { el.remove() } catch {}
+    })
+
     // Clear enhanced flags so they can be re-enhanced if setting is re-enabled
     await asyncBatchProcess<HTMLElement>(
       'a[data-wol-enhanced]',
@@ -3171,6 +3395,14 @@ import { channelCache } from '../modules/yt/channelCache'
             }
           } catch {}
         }
+        // Channels on the ignore list get no button
+        if (await ignoreMatcher.isChannelIgnored({ id: ucid, handle })) {
+          cr.removeAttribute('data-wol-channel-button-pending')
+          try { cr.querySelectorAll('[data-wol-results-channel-btn]').forEach(el => el.remove()) } catch {}
+          try { const st = channelRendererState.get(cr); st?.mo?.disconnect(); channelRendererState.delete(cr) } catch {}
+          cr.removeAttribute('data-wol-channel-button')
+          continue
+        }
         // On results page, only inject a channel button when resolver returns a unique Odysee URL
         if (!chUrl) {
           if (WOL_DEBUG) dbg('[RESULTS][CR]', i, 'skip inject (no chUrl)')
@@ -3402,6 +3634,17 @@ import { channelCache } from '../modules/yt/channelCache'
         return { vr, nameAnchor, handle, ucid, videoId, ytUrl } as any
       })
 
+      // Channels on the ignore list get no chip
+      if (!ignoreMatcher.isEmpty()) {
+        for (const it of [...items]) {
+          if (!await ignoreMatcher.isChannelIgnored({ id: it.ucid, handle: it.handle })) continue
+          try { const st = resultsVideoChipState.get(it.vr); st?.mo?.disconnect(); resultsVideoChipState.delete(it.vr) } catch {}
+          it.vr.querySelectorAll('a[data-wol-inline-channel]').forEach(el => el.remove())
+          items.splice(items.indexOf(it), 1)
+        }
+        if (myGen !== overlayGeneration) { resultsVideoChipRunning = false; return }
+      }
+
       // Compute a simple signature of what's on the page and already known
       try {
         const now0 = Date.now()
@@ -4217,6 +4460,33 @@ import { channelCache } from '../modules/yt/channelCache'
     }
   }
 
+  /** Puts a retry button on the thumbnail of a tile whose lookup failed */
+  function showTileResolveFailure(a: HTMLElement, id: string, type: ResolveUrlTypes, failure: ResolveFailure) {
+    const host = (a.closest('ytd-thumbnail, yt-thumbnail-view-model') as HTMLElement | null) || a
+    if (host.querySelector(`[data-wol-retry="${id}"]`)) return
+    if (getComputedStyle(host).position === 'static') host.style.position = 'relative'
+
+    const mount = document.createElement('div')
+    mount.setAttribute('data-wol-retry', id)
+    mount.style.position = 'absolute'
+    mount.style.bottom = '6px'
+    mount.style.left = '6px'
+    mount.style.zIndex = '1500'
+    mount.style.transform = 'scale(0.8)'
+    mount.style.transformOrigin = 'bottom left'
+    const retry = async () => {
+      mount.remove()
+      const srcPlatform = getSourcePlatfromSettingsFromHostname(location.hostname)!
+      await getTargetsBySourcesForce({ platform: srcPlatform, id, type, url: new URL(location.href), time: null }).catch((error) => logger.error(error))
+      // Lets the next pass pick the tile up again, with the fresh answer in the cache
+      resolvedLocal.delete(`${type}:${id}`)
+      a.removeAttribute('data-wol-enhanced')
+      scheduleEnhanceListings(0, true)
+    }
+    render(<ResolveFailedButton failure={failure} compact onRetry={retry} />, mount)
+    host.appendChild(mount)
+  }
+
   // Throttling for enhancement function to prevent spam
   let lastEnhanceTime = 0
   let lastEnhanceUrl = ''
@@ -4983,6 +5253,8 @@ import { channelCache } from '../modules/yt/channelCache'
       if (gen !== overlayGeneration || myRun !== currentEnhanceRun) return
       for (const x of toResolveItems) {
         const t = results[x.id] ?? null
+        // Failed lookups aren't remembered as misses, the tile gets a retry button instead
+        if (!t && failedSources.has(x.id)) continue
         resolvedLocal.set(keyOf(x), t)
         if (WOL_DEBUG && (x.id === '-zDqghyM_H0' || x.id === '_b4uZhW-wYI' || x.id === 'RDZxYZkz20lYA')) {
           logger.log(`[RESOLVED DEBUG] Adding to resolvedLocal:`, {
@@ -5094,6 +5366,10 @@ import { channelCache } from '../modules/yt/channelCache'
       if (removedCount > 0) {
         logger.log(`🗑️ Removed ${removedCount} stale overlay(s) with no Odysee target`)
       }
+      document.querySelectorAll('[data-wol-retry]').forEach((retry) => {
+        const retryId = retry.getAttribute('data-wol-retry')
+        if (!retryId || !failedSources.has(retryId)) try { retry.remove() } catch {}
+      })
     } catch (e) {
       logger.error('Error cleaning stale overlays:', e)
     }
@@ -5145,6 +5421,8 @@ import { channelCache } from '../modules/yt/channelCache'
         }
       }
       if (!res && location.pathname !== '/results') {
+        const failure = failedSources.get(id)
+        if (failure && settings.buttonOverlay) showTileResolveFailure(a, id, type, failure)
         try { (a as any).dataset.wolSkip = 'no-target' } catch {}
         try { metrics.counts.skipNoTarget = (metrics.counts.skipNoTarget || 0) + 1 } catch {}
         overlayDbg(`[DEBUG] Skipping ${id} - no Odysee target yet (will appear after resolve/cache)`)
@@ -6660,6 +6938,147 @@ import { channelCache } from '../modules/yt/channelCache'
     }, delay) as unknown as number
   }
 
+  function getRedirectPageType(source: Source): RedirectPageType {
+    if (source.type === 'channel') return 'channel'
+    if (source.url.pathname.startsWith('/shorts/')) return 'shorts'
+    const details = (window as any)?.ytInitialPlayerResponse?.videoDetails
+    if (source.url.pathname.startsWith('/live/') || (details?.videoId === source.id && details?.isLive)) return 'live'
+    return 'watch'
+  }
+
+  /**
+   * Reads the videos of a playlist from YT page or API data, in order.
+   * The playlist page has them as playlistVideoRenderer, the watch page panel as playlistPanelVideoRenderer,
+   * and the next part is behind a continuationItemRenderer.
+   */
+  function collectPlaylistItems(data: any): { items: PlaylistItem[], continuation: string | null } {
+    const items: PlaylistItem[] = []
+    let continuation: string | null = null
+    const visit = (node: any, depth: number) => {
+      if (!node || typeof node !== 'object' || depth > 40) return
+      const renderer = node.playlistVideoRenderer ?? node.playlistPanelVideoRenderer
+      if (typeof renderer?.videoId === 'string') {
+        const title = renderer.title?.runs?.map((run: any) => run?.text ?? '').join('') || renderer.title?.simpleText || null
+        items.push({ id: renderer.videoId, title })
+        return
+      }
+      const token = node.continuationItemRenderer?.continuationEndpoint?.continuationCommand?.token
+      if (typeof token === 'string') {
+        continuation = token
+        return
+      }
+      for (const value of Array.isArray(node) ? node : Object.values(node)) visit(value, depth + 1)
+    }
+    visit(data, 0)
+    return { items, continuation }
+  }
+
+  // YT playlists hold 5000 videos at most, 100 come per request
+  const MAX_PLAYLIST_PAGES = 50
+
+  /**
+   * Fetches every video of the playlist from its playlist page, following the continuations.
+   * The panel on the watch page only renders part of a long playlist.
+   * @returns null if the playlist has no playlist page, like mixes
+   */
+  async function fetchPlaylist(listId: string): Promise<Playlist | null> {
+    const html = await (await fetch(`/playlist?list=${encodeURIComponent(listId)}`, { credentials: 'same-origin' })).text()
+    const initialData = html.match(/ytInitialData\s*=\s*(\{[\s\S]*?\});\s*<\/script>/)?.[1]
+    if (!initialData) return null
+    const data = JSON.parse(initialData)
+    const title: string | null = data?.metadata?.playlistMetadataRenderer?.title ?? null
+    let { items, continuation } = collectPlaylistItems(data?.contents)
+    if (items.length === 0) return null
+
+    const apiKey = html.match(/"INNERTUBE_API_KEY"\s*:\s*"([^"]+)"/)?.[1]
+    const clientVersion = html.match(/"INNERTUBE_CONTEXT_CLIENT_VERSION"\s*:\s*"([^"]+)"/)?.[1]
+    for (let page = 1; continuation && apiKey && clientVersion && page < MAX_PLAYLIST_PAGES; page++) {
+      const response = await fetch(`/youtubei/v1/browse?key=${encodeURIComponent(apiKey)}&prettyPrint=false`, {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ context: { client: { clientName: 'WEB', clientVersion } }, continuation })
+      })
+      if (!response.ok) {
+        logger.warn(`Watch on Odysee: could not fetch the rest of playlist ${listId}, stopped at ${items.length} videos`)
+        break
+      }
+      const next = collectPlaylistItems((await response.json())?.onResponseReceivedActions)
+      items = items.concat(next.items)
+      continuation = next.continuation
+    }
+
+    const seen = new Set<string>()
+    items = items.filter((item) => {
+      if (seen.has(item.id)) return false
+      seen.add(item.id)
+      return true
+    })
+    return { listId, title, items }
+  }
+
+  /** Reads the playlist panel of the watch page, which only has part of a long playlist */
+  function readPlaylistPanel(listId: string): Playlist {
+    const panel = document.querySelector('ytd-watch-flexy ytd-playlist-panel-renderer#playlist') ?? document.querySelector('ytd-playlist-panel-renderer')
+    const items: PlaylistItem[] = []
+    const seen = new Set<string>()
+    panel?.querySelectorAll<HTMLAnchorElement>('ytd-playlist-panel-video-renderer a#wc-endpoint').forEach((a) => {
+      let id: string | null = null
+      try { id = new URL(a.href, location.origin).searchParams.get('v') } catch {}
+      if (!id || seen.has(id)) return
+      seen.add(id)
+      items.push({ id, title: a.querySelector('#video-title')?.textContent?.trim() || null })
+    })
+    const title = panel?.querySelector('#header-description h3 a, #header-description .title')?.textContent?.trim() || null
+    return { listId, title, items }
+  }
+
+  // Fetched once per playlist, a page can ask again on every navigation within it
+  let playlistRequest: { listId: string, playlist: Promise<Playlist | null> } | null = null
+
+  /** The playlist the video is played from, null when it isn't played from one */
+  async function readCurrentPlaylist(): Promise<Playlist | null> {
+    const listId = new URL(location.href).searchParams.get('list')
+    if (location.pathname !== '/watch' || !listId) return null
+    if (playlistRequest?.listId !== listId) {
+      const request = { listId, playlist: fetchPlaylist(listId) }
+      playlistRequest = request
+      // A failed fetch is tried again the next time
+      request.playlist.catch(() => { if (playlistRequest === request) playlistRequest = null })
+    }
+    const playlist = await playlistRequest.playlist.catch((error) => {
+      logger.warn('Watch on Odysee: could not fetch playlist', listId, error)
+      return null
+    })
+    return playlist ?? readPlaylistPanel(listId)
+  }
+
+  /** Resolves every item of the playlist, so the runner page has them cached when it's opened */
+  async function resolveCurrentPlaylist() {
+    const playlist = await readCurrentPlaylist()
+    if (!playlist || playlist.items.length === 0) {
+      currentPlaylist = null
+      return
+    }
+    const sig = `${playlist.listId}:${playlist.items.map((item) => item.id).join(',')}`
+    if (currentPlaylist?.sig === sig) return
+    const srcPlatform = getSourcePlatfromSettingsFromHostname(location.hostname)!
+    const targets = await getTargetsBySources(...playlist.items.map((item): Source => ({ platform: srcPlatform, id: item.id, type: 'video', url: new URL(location.href), time: null })))
+    currentPlaylist = { playlist, sig, mapped: playlist.items.filter((item) => targets[item.id]).length }
+  }
+
+  /** Renders the retry button for the page and looks it up again once the failure is due for a retry */
+  function showResolveFailure(source: Source, failure: ResolveFailure) {
+    logger.warn(`Watch on Odysee: lookup ${failure.status}, retrying at`, new Date(failure.retryAt).toLocaleTimeString())
+    updateButtons({ source, buttonTargets: [], playerTarget: null })
+    if (resolverRetryTimer) clearTimeout(resolverRetryTimer)
+    resolverRetryTimer = setTimeout(() => {
+      resolverRetryTimer = null
+      lastResolveAt = 0
+      scheduleProcessCurrentPage(0)
+    }, Math.max(failure.retryAt - Date.now(), 1000)) as unknown as number
+  }
+
   async function processCurrentPage() {
     if (extensionContextInvalidated) return
     const processStartTime = performance.now()
@@ -7066,6 +7485,16 @@ import { channelCache } from '../modules/yt/channelCache'
         } catch {}
       }
 
+      // Leave the page alone, redirect included, when it or its channel is on an ignore list
+      await ignoreMatcher.ready
+      const pageHandle = source.type === 'channel' ? urlNow.pathname.match(/^\/@([^/]+)/)?.[1] ?? null : null
+      if (isSourceIgnored(source) || ignoreMatcher.isIgnored(channelIdForVideoPage) || (source.type === 'channel' && await ignoreMatcher.isChannelIgnored({ id: source.id, handle: pageHandle }))) {
+        dbg(`[CHANNEL-DEBUG] ${source.type} ${source.id} is on an ignore list`)
+        updateButtons(null)
+        if (settings.buttonOverlay) ensureOverlayEnhancementActive()
+        return
+      }
+
       // Resolve all at once (only if signature changed or periodic refresh needed)
       const sig = sourcesToResolve.map(s => `${s.type}:${s.id}`).sort().join(',')
       let resolved: Record<string, Target | null>
@@ -7081,6 +7510,11 @@ import { channelCache } from '../modules/yt/channelCache'
         } else {
           resolved = await getTargetsBySources(...sourcesToResolve)
         }
+        const failure = failedSources.get(source.id)
+        if (failure) {
+          showResolveFailure(source, failure)
+          return
+        }
         const resolveEndTime = performance.now()
         dbg(`[CHANNEL-DEBUG] API resolution completed in ${(resolveEndTime - resolveStartTime).toFixed(2)}ms`)
         lastResolved = resolved
@@ -7161,8 +7595,8 @@ import { channelCache } from '../modules/yt/channelCache'
                     ytUrlResolvePageCache.set(handleUrl, target)
                     if (WOL_DEBUG) dbg('[CACHE] Path-based handle cache set for', handle, '→ UC', src.id)
                     // Persist minimal mappings for later loads
-                    try { channelCache.putHandle(handle, src.id) } catch {}
-                    try { channelCache.putYtUrl(handleUrl, src.id) } catch {}
+                    channelCache.putHandle(handle, src.id).catch(err => { if (WOL_DEBUG) dbg('[CACHE] Error persisting handle:', err) })
+                    channelCache.putYtUrl(handleUrl, src.id).catch(err => { if (WOL_DEBUG) dbg('[CACHE] Error persisting ytUrl:', err) })
                   } else if (WOL_DEBUG) {
                     dbg('[CACHE] No handle anchor found on page')
                   }
@@ -7279,6 +7713,16 @@ import { channelCache } from '../modules/yt/channelCache'
         }
       }
 
+      // The redirect rules can also leave the page without buttons
+      const redirectDecision = await decideRedirect(settings, {
+        pageType: getRedirectPageType(source),
+        channel: { id: source.type === 'channel' ? source.id : channelIdForVideoPage, handle: pageHandle },
+        focused: document.visibilityState === 'visible' && document.hasFocus(),
+        now: new Date()
+      }, channelCache)
+      lastRedirectDecision = { href: currentUrl, decision: redirectDecision }
+      logger.log('Watch on Odysee: Redirect rule decision:', redirectDecision, 'source.type:', source.type, 'source.id:', source.id)
+
       if (subscribeTargets.length === 0 && !playerTarget) {
         dbg(`[CHANNEL-DEBUG] No targets found, clearing buttons`)
         updateButtons(null)
@@ -7295,7 +7739,13 @@ import { channelCache } from '../modules/yt/channelCache'
       if (source.type === 'channel' && subscribeTargets.length > 0) {
         dbg(`[CHANNEL-DEBUG] Channel button target:`, subscribeTargets[0])
       }
-      updateButtons({ buttonTargets: subscribeTargets, playerTarget, source })
+      if (redirectDecision.action === 'nothing') {
+        // Keeps the settings listener from drawing them back
+        lastRenderContext = null
+        updateButtons(null)
+      } else {
+        updateButtons({ buttonTargets: subscribeTargets, playerTarget, source })
+      }
       if (settings.buttonOverlay) ensureOverlayEnhancementActive()
       if (location.pathname === '/results' && settings.resultsApplySelections && settings.buttonChannelSub) {
         scheduleRefreshResultsChips(100)
@@ -7305,19 +7755,23 @@ import { channelCache } from '../modules/yt/channelCache'
       let shouldRedirect = false
       let redirectTarget: Target | null = null
       // Prefer resolved video target; do not require playerTarget (timestamp optional)
-      logger.log('Watch on Odysee: Checking redirect conditions - redirectVideo:', settings.redirectVideo, 'redirectChannel:', settings.redirectChannel, 'source.type:', source.type, 'source.id:', source.id)
-      
-      if (settings.redirectVideo && source.type === 'video' && !source.url.searchParams.has('list')) {
+      if (source.type === 'video' && source.url.searchParams.has('list')) resolveCurrentPlaylist().catch((error) => logger.error(error))
+      if (redirectDecision.action === 'redirect' && source.type === 'video' && (settings.redirectPlaylistItems || !source.url.searchParams.has('list'))) {
         const vidTarget = resolved[source.id] ?? null
         logger.log('Watch on Odysee: Video redirect check - vidTarget:', vidTarget)
         if (vidTarget?.type === 'video') { shouldRedirect = true; redirectTarget = vidTarget }
       }
-      if (!shouldRedirect && settings.redirectChannel && source.type === 'channel') {
+      if (!shouldRedirect && redirectDecision.action === 'redirect' && source.type === 'channel') {
         const channelRedirect = resolved[source.id] ?? null
         logger.log('Watch on Odysee: Channel redirect check - channelRedirect:', channelRedirect)
         if (channelRedirect) { shouldRedirect = true; redirectTarget = channelRedirect }
       }
-      
+
+      // Back from Odysee to the page this tab redirected from
+      if (shouldRedirect && isSameTabReturn(`${source.type}:${source.id}`)) {
+        logger.log('Watch on Odysee: Came back to a page this tab redirected from, staying')
+        shouldRedirect = false
+      }
       logger.log('Watch on Odysee: Redirect decision - shouldRedirect:', shouldRedirect, 'redirectTarget:', redirectTarget)
       if (shouldRedirect && redirectTarget) {
         const now = Date.now()
@@ -7326,11 +7780,16 @@ import { channelCache } from '../modules/yt/channelCache'
           const odyseeURL = getOdyseeUrlByTarget(redirectTarget)
           redirectedUrls.add(currentUrl)
           lastRedirectTime = now
-          setTimeout(() => { redirectedUrls.delete(currentUrl) }, 120000)
+          // A page that stays open redirects once per visit, navigating away clears it
+          if (settings.redirectMode !== 'background-tab') setTimeout(() => { redirectedUrls.delete(currentUrl) }, 120000)
            if (source && source.type === 'video') findVideoElementAwait(source).then(v => v.pause())
-          logger.log('Watch on Odysee: Redirecting to:', odyseeURL.href)
+          if (settings.redirectMode === 'same-tab') rememberSameTabRedirect(`${source.type}:${source.id}`)
+          logger.log('Watch on Odysee: Redirecting to:', odyseeURL.href, 'mode:', settings.redirectMode)
           openNewTab(odyseeURL, 'auto')
-          if (window.history.length === 1) window.close(); else window.history.back()
+          // The background replaces this tab in same-tab mode, and leaves it in front in background-tab mode
+          if (settings.redirectMode === 'new-tab') {
+            if (window.history.length === 1) window.close(); else window.history.back()
+          }
         }
       }
 
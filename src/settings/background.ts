@@ -1,4 +1,4 @@
-import { DEFAULT_SETTINGS, ExtensionSettings, getExtensionSettingsAsync, setExtensionSetting, targetPlatformSettings, ytUrlResolversSettings } from '../settings'
+import { DEFAULT_SETTINGS, ExtensionSettings, getExtensionSettingsAsync, getYtUrlResolver, setExtensionSetting, targetPlatformSettings } from '../settings'
 
 // This is for manifest v2 and v3
 const chromeAction = chrome.action ?? chrome.browserAction
@@ -19,7 +19,9 @@ async function initSettings() {
     }
 
     if (!Object.keys(targetPlatformSettings).includes(settings.targetPlatform)) setExtensionSetting('targetPlatform', DEFAULT_SETTINGS.targetPlatform)
-    if (!Object.keys(ytUrlResolversSettings).includes(settings.urlResolver)) setExtensionSetting('urlResolver', DEFAULT_SETTINGS.urlResolver)
+    if (!getYtUrlResolver(settings, settings.urlResolver)) setExtensionSetting('urlResolver', DEFAULT_SETTINGS.urlResolver)
+    const urlResolverFallbacks = (Array.isArray(settings.urlResolverFallbacks) ? settings.urlResolverFallbacks : []).filter((name) => getYtUrlResolver(settings, name))
+    if (urlResolverFallbacks.length !== settings.urlResolverFallbacks?.length) setExtensionSetting('urlResolverFallbacks', urlResolverFallbacks)
 
     // chromeAction.setBadgeText({ text: settings.redirect ? 'ON' : 'OFF' })
 }
@@ -2,32 +2,117 @@ import type { JSX } from "preact"
 import { useEffect, useReducer } from "preact/hooks"
 import type { ResolveUrlTypes } from "../modules/yt/urlResolve"
 
-export interface ExtensionSettings extends Record<string, string | number | boolean | null | undefined> {
+export interface ExtensionSettings extends Record<string, string | number | boolean | null | undefined | string[] | Record<string, YTUrlResolver> | Record<string, MappingOverride> | RedirectRule[]> {
   targetPlatform: TargetPlatformName
   urlResolver: YTUrlResolverName,
+  customUrlResolvers: Record<CustomYTUrlResolverName, YTUrlResolver>,
+  /** Resolvers to try in order when the selected one fails */
+  urlResolverFallbacks: YTUrlResolverName[],
+  /** Whether videos redirect when no redirect rule matches */
   redirectVideo: boolean,
+  /** Whether channels redirect when no redirect rule matches */
   redirectChannel: boolean,
+  /** Whether videos played from a playlist redirect too */
+  redirectPlaylistItems: boolean
+  /** Decide what happens on a video or channel page, the first one that matches is used */
+  redirectRules: RedirectRule[]
+  /** Where Odysee opens when a page redirects */
+  redirectMode: RedirectMode
   buttonVideoSub: boolean
   buttonVideoPlayer: boolean
   buttonChannelSub: boolean
   buttonOverlay: boolean
   resultsApplySelections: boolean
+  /** Most entries each resolver cache store keeps, the least recently used ones are evicted above it */
+  cacheMaxEntries: number
+  /** Hours a resolved YouTube ID is cached */
+  urlCacheHitTtl: number
+  /** Hours a YouTube ID without an Odysee match is cached */
+  urlCacheMissTtl: number
+  /** Hours a resolved channel handle, ID or URL is cached */
+  channelCacheHitTtl: number
+  /** Hours a channel without an Odysee match is cached */
+  channelCacheMissTtl: number
+  /** Mappings set by the user, by YT video or channel ID, used instead of the resolver's */
+  mappingOverrides: Record<string, MappingOverride>
+  /** Channels the extension leaves alone, by channel ID or @handle */
+  ignoredChannels: string[]
+  /** Videos the extension leaves alone, by video ID */
+  ignoredVideos: string[]
+}
+
+/** Where a YT video or channel goes on Odysee, decided by the user */
+export interface MappingOverride {
+  type: ResolveUrlTypes
+  /** The Odysee path, e.g. `@channel:a/video:b`, null to never show a button for it */
+  odyseePath: string | null
+  updatedAt: number
+}
+
+export type RedirectPageType = 'watch' | 'shorts' | 'live' | 'channel'
+export type RedirectRuleAction = 'redirect' | 'button' | 'nothing'
+/** A new tab that's switched to, the YT tab itself, or a new tab left in the background */
+export type RedirectMode = 'new-tab' | 'same-tab' | 'background-tab'
+
+/** When a page redirects, only shows the buttons, or is left alone */
+export interface RedirectRule {
+  id: string
+  /** The pages it applies to, all of them when empty */
+  pageTypes: RedirectPageType[]
+  /** Channel IDs or @handles it applies to, every channel when empty */
+  channels: string[]
+  /** Whether the tab has to be focused, or unfocused, for it to apply. Either when null */
+  focused: boolean | null
+  /** Times of day it applies at, as local `HH:MM`, a window can go past midnight. Any time when empty */
+  timeWindows: { start: string, end: string }[]
+  action: RedirectRuleAction
 }
 
 export const DEFAULT_SETTINGS: ExtensionSettings = {
   targetPlatform: 'odysee',
   urlResolver: 'odyseeApi',
+  customUrlResolvers: {},
+  urlResolverFallbacks: [],
   redirectVideo: false,
   redirectChannel: false,
+  redirectPlaylistItems: false,
+  redirectRules: [],
+  redirectMode: 'new-tab',
   buttonVideoSub: true,
   buttonVideoPlayer: true,
   buttonChannelSub: true,
   buttonOverlay: true,
   resultsApplySelections: true,
+  cacheMaxEntries: 20000,
+  urlCacheHitTtl: 15 * 24,
+  urlCacheMissTtl: 1,
+  channelCacheHitTtl: 7 * 24,
+  channelCacheMissTtl: 24,
+  mappingOverrides: {},
+  ignoredChannels: [],
+  ignoredVideos: [],
 }
 
+export type CacheTtlSettingName = 'urlCacheHitTtl' | 'urlCacheMissTtl' | 'channelCacheHitTtl' | 'channelCacheMissTtl'
+/** The range the cache lifetimes can be set in, in hours */
+export const cacheTtlLimits: Record<CacheTtlSettingName, { min: number, max: number }> = {
+  urlCacheHitTtl: { min: 1, max: 90 * 24 },
+  urlCacheMissTtl: { min: 1, max: 7 * 24 },
+  channelCacheHitTtl: { min: 1, max: 90 * 24 },
+  channelCacheMissTtl: { min: 1, max: 7 * 24 },
+}
+/** Brings a cache lifetime into its range, null if it isn't a number */
+export function clampCacheTtl(name: CacheTtlSettingName, hours: unknown): number | null {
+  if (typeof hours !== 'number' || !Number.isFinite(hours)) return null
+  const { min, max } = cacheTtlLimits[name]
+  return Math.min(max, Math.max(min, hours))
+}
+
+/** The extension keeps its own state next to the settings, under keys starting with `wol`, those aren't settings */
+export const isExtensionStateKey = (key: string) => key.startsWith('wol')
+
 export function getExtensionSettingsAsync(): Promise<ExtensionSettings> {
-  return new Promise(resolve => chrome.storage.local.get(o => resolve({ ...DEFAULT_SETTINGS, ...(o as any) })))
+  return new Promise(resolve => chrome.storage.local.get(o => resolve({ ...DEFAULT_SETTINGS, ...Object.fromEntries(Object.entries(o).filter(([key]) => !isExtensionStateKey(key))) })))
 }
 
 /** Utilty to set a setting in the browser */
@@ -152,10 +237,24 @@ const ytUrlResolver = (o: {
   name: string
   href: string
   signRequest: boolean
+  /** Takes the IDs as a form body in a POST to /resolve, for batches too long for a URL */
+  supportsPost?: boolean
 }) => o
 export type YTUrlResolver = ReturnType<typeof ytUrlResolver>
-export type YTUrlResolverName = Extract<keyof typeof ytUrlResolversSettings, string>
-export const getYtUrlResolversSettingsEntiries = () => Object.entries(ytUrlResolversSettings) as any as [Extract<keyof typeof ytUrlResolversSettings, string>, YTUrlResolver][]
+/** User added resolvers are stored in the settings, under keys with this prefix */
+export type CustomYTUrlResolverName = `custom:${string}`
+export type YTUrlResolverName = Extract<keyof typeof ytUrlResolversSettings, string> | CustomYTUrlResolverName
+export const getYtUrlResolversSettingsEntiries = (settings?: Pick<ExtensionSettings, 'customUrlResolvers'>) => [
+  ...Object.entries(ytUrlResolversSettings),
+  ...Object.entries(settings?.customUrlResolvers ?? {})
+] as any as [YTUrlResolverName, YTUrlResolver][]
+export const isCustomYtUrlResolverName = (name: string): name is CustomYTUrlResolverName => name.startsWith('custom:')
+/** Finds a built-in or user added resolver by its name, returns null if there is none */
+export function getYtUrlResolver(settings: Pick<ExtensionSettings, 'customUrlResolvers'>, name: string): YTUrlResolver | null {
+  if (isCustomYtUrlResolverName(name)) return settings.customUrlResolvers?.[name] ?? null
+  if (!Object.hasOwn(ytUrlResolversSettings, name)) return null
+  return ytUrlResolversSettings[name as keyof typeof ytUrlResolversSettings]
+}
 export const ytUrlResolversSettings = {
   odyseeApi: ytUrlResolver({
     name: "Odysee",
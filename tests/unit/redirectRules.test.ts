@@ -0,0 +1,129 @@
+import type { RedirectRule } from '../../src/settings'
+import { decideRedirect, matchesRedirectRule, RedirectContext } from '../../src/modules/yt/redirectRules'
+
+const CHANNEL_ID = 'UCHnyfMqiRRG1u-2MsSQLbXA'
+
+// Like the real cache, handles are only known in lowercase
+const channelCache = {
+  getHandle: jest.fn(async (handle: string) => handle === 'veritasium' ? CHANNEL_ID : null)
+}
+
+const rule = (changes: Partial<RedirectRule>): RedirectRule => ({
+  id: 'rule',
+  pageTypes: [],
+  channels: [],
+  focused: null,
+  timeWindows: [],
+  action: 'nothing',
+  ...changes
+})
+
+const at = (hours: number, minutes = 0) => new Date(2024, 0, 15, hours, minutes)
+
+const context = (changes: Partial<RedirectContext> = {}): RedirectContext => ({
+  pageType: 'watch',
+  channel: { id: CHANNEL_ID, handle: null },
+  focused: true,
+  now: at(12),
+  ...changes
+})
+
+describe('matchesRedirectRule', () => {
+  test('an empty rule matches every page', async () => {
+    expect(await matchesRedirectRule(rule({}), context(), channelCache)).toBe(true)
+  })
+
+  test('matches the listed page types only', async () => {
+    const shortsOnly = rule({ pageTypes: ['shorts', 'live'] })
+    expect(await matchesRedirectRule(shortsOnly, context({ pageType: 'shorts' }), channelCache)).toBe(true)
+    expect(await matchesRedirectRule(shortsOnly, context({ pageType: 'watch' }), channelCache)).toBe(false)
+  })
+
+  test.each([
+    [null, true, true],
+    [null, false, true],
+    [true, true, true],
+    [true, false, false],
+    [false, true, false],
+    [false, false, true],
+  ])('focused %p matches a tab with focus %p: %p', async (focused, tabFocused, matches) => {
+    expect(await matchesRedirectRule(rule({ focused }), context({ focused: tabFocused }), channelCache)).toBe(matches)
+  })
+
+  test.each([
+    ['09:00', '17:00', at(9), true],
+    ['09:00', '17:00', at(16, 59), true],
+    ['09:00', '17:00', at(17), false],
+    ['09:00', '17:00', at(8, 59), false],
+    ['22:00', '06:00', at(23, 30), true],
+    ['22:00', '06:00', at(0), true],
+    ['22:00', '06:00', at(5, 59), true],
+    ['22:00', '06:00', at(6), false],
+    ['22:00', '06:00', at(12), false],
+    ['08:00', '08:00', at(3), true],
+    ['08:00', '08:00', at(8), true],
+  ])('the window %s-%s at %p matches: %p', async (start, end, now, matches) => {
+    expect(await matchesRedirectRule(rule({ timeWindows: [{ start, end }] }), context({ now }), channelCache)).toBe(matches)
+  })
+
+  test('matches when any of the windows does', async () => {
+    const windows = rule({ timeWindows: [{ start: '07:00', end: '08:00' }, { start: '18:00', end: '19:00' }] })
+    expect(await matchesRedirectRule(windows, context({ now: at(18, 30) }), channelCache)).toBe(true)
+    expect(await matchesRedirectRule(windows, context({ now: at(12) }), channelCache)).toBe(false)
+  })
+
+  test('matches channels by ID', async () => {
+    expect(await matchesRedirectRule(rule({ channels: [CHANNEL_ID] }), context(), channelCache)).toBe(true)
+    expect(await matchesRedirectRule(rule({ channels: ['UCaaaaaaaaaaaaaaaaaaaaaa'] }), context(), channelCache)).toBe(false)
+  })
+
+  test('matches the handle of the page regardless of case', async () => {
+    const listed = rule({ channels: ['@Veritasium'] })
+    expect(await matchesRedirectRule(listed, context({ channel: { id: null, handle: '@veritasium' } }), channelCache)).toBe(true)
+  })
+
+  test('matches handles to channel IDs through the cache regardless of case', async () => {
+    expect(await matchesRedirectRule(rule({ channels: ['@Veritasium'] }), context(), channelCache)).toBe(true)
+    expect(channelCache.getHandle).toHaveBeenCalledWith('veritasium')
+    expect(await matchesRedirectRule(rule({ channels: ['@someoneElse'] }), context(), channelCache)).toBe(false)
+  })
+
+  test('does not match a handle when the cache fails', async () => {
+    const failingCache = { getHandle: jest.fn(async () => { throw new Error('No background') }) }
+    expect(await matchesRedirectRule(rule({ channels: ['@veritasium'] }), context(), failingCache)).toBe(false)
+  })
+})
+
+describe('decideRedirect', () => {
+  const toggles = { redirectVideo: true, redirectChannel: false }
+
+  test('uses the first rule that matches', async () => {
+    const decision = await decideRedirect({
+      ...toggles,
+      redirectRules: [
+        rule({ pageTypes: ['channel'], action: 'redirect' }),
+        rule({ focused: false, action: 'nothing' }),
+        rule({ focused: true, action: 'button' }),
+        rule({ action: 'redirect' }),
+      ]
+    }, context(), channelCache)
+
+    expect(decision).toEqual({ action: 'button', ruleIndex: 2 })
+  })
+
+  test.each([
+    ['watch', 'redirect'],
+    ['shorts', 'redirect'],
+    ['channel', 'button'],
+  ] as const)('falls back to the toggles on %s pages when no rule matches', async (pageType, action) => {
+    const decision = await decideRedirect({ ...toggles, redirectRules: [rule({ focused: false, action: 'nothing' })] }, context({ pageType }), channelCache)
+    expect(decision).toEqual({ action, ruleIndex: null })
+  })
+
+  test('falls back to the toggles when there are no rules', async () => {
+    expect(await decideRedirect({ redirectVideo: false, redirectChannel: true, redirectRules: [] }, context({ pageType: 'channel' }), channelCache))
+      .toEqual({ action: 'redirect', ruleIndex: null })
+    expect(await decideRedirect({ redirectVideo: false, redirectChannel: true, redirectRules: [] }, context(), channelCache))
+      .toEqual({ action: 'button', ruleIndex: null })
+  })
+})
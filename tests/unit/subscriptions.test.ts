@@ -0,0 +1,247 @@
+import { getSubsFromCsv, getSubsFromFile, getSubsFromFreeTube, getSubsFromJson, getSubsFromLibreTube, getSubsFromNewPipe, getSubsFromOpml } from '../../src/modules/yt'
+
+const CHANNEL_A = 'UCaaaaaaaaaaaaaaaaaaaaaa'
+const CHANNEL_B = 'UCbbbbbbbbbbbbbbbbbbbbbb'
+const CHANNEL_C = 'UCcccccccccccccccccccccc'
+
+describe('getSubsFromOpml', () => {
+  test('reads channel feeds and their titles', () => {
+    const result = getSubsFromOpml(`﻿<?xml version="1.0"?>
+      <opml version="1.1">
+        <body>
+          <outline text="YouTube Subscriptions" title="YouTube Subscriptions">
+            <outline text="Channel A" title="Channel A" type="rss" xmlUrl="https://www.youtube.com/feeds/videos.xml?channel_id=${CHANNEL_A}" />
+            <outline text="Channel B" type="rss" xmlUrl="https://www.youtube.com/channel/${CHANNEL_B}" />
+          </outline>
+        </body>
+      </opml>`)
+
+    expect(result.channelIds).toEqual([CHANNEL_A, CHANNEL_B])
+    expect(result.titles).toEqual({ [CHANNEL_A]: 'Channel A', [CHANNEL_B]: 'Channel B' })
+    expect(result.invalidRows).toEqual([])
+  })
+
+  test('reports feeds that are not YouTube channels', () => {
+    const result = getSubsFromOpml(`<opml><body>
+      <outline xmlUrl="https://example.com/feed.xml" />
+      <outline xmlUrl="https://www.youtube.com/feeds/videos.xml?channel_id=${CHANNEL_A}" />
+    </body></opml>`)
+
+    expect(result.channelIds).toEqual([CHANNEL_A])
+    expect(result.invalidRows).toEqual([{ row: 1, content: 'https://example.com/feed.xml', reason: 'Not a YouTube channel feed' }])
+  })
+
+  test('rejects malformed XML', () => {
+    expect(() => getSubsFromOpml('<opml><body>')).toThrow('not a valid XML document')
+  })
+})
+
+describe('getSubsFromJson', () => {
+  test('reads the plain array export', () => {
+    const result = getSubsFromJson(`﻿${JSON.stringify([
+      { snippet: { title: 'Channel A', resourceId: { channelId: CHANNEL_A } } },
+      { snippet: { title: 'Channel B', resourceId: { channelId: CHANNEL_B } } },
+    ])}`)
+
+    expect(result.channelIds).toEqual([CHANNEL_A, CHANNEL_B])
+    expect(result.titles).toEqual({ [CHANNEL_A]: 'Channel A', [CHANNEL_B]: 'Channel B' })
+    expect(result.invalidRows).toEqual([])
+  })
+
+  test('reads the API response shape and skips duplicates', () => {
+    const result = getSubsFromJson(JSON.stringify({
+      items: [
+        { snippet: { resourceId: { channelId: CHANNEL_A } } },
+        { snippet: { resourceId: { channelId: CHANNEL_A } } },
+        { snippet: { resourceId: { channelId: 'not-a-channel' } } },
+      ]
+    }))
+
+    expect(result.channelIds).toEqual([CHANNEL_A])
+    expect(result.titles).toEqual({})
+    expect(result.invalidRows).toEqual([
+      { row: 3, content: JSON.stringify({ snippet: { resourceId: { channelId: 'not-a-channel' } } }), reason: 'Missing or malformed channel ID' },
+    ])
+  })
+
+  test('rejects JSON of another shape', () => {
+    expect(() => getSubsFromJson('{"foo": 1}')).toThrow('not a YouTube subscriptions export')
+  })
+})
+
+describe('getSubsFromCsv', () => {
+  test('reads the English Takeout export', () => {
+    const result = getSubsFromCsv([
+      'Channel Id,Channel Url,Channel Title',
+      `${CHANNEL_A},http://www.youtube.com/channel/${CHANNEL_A},Channel A`,
+      `${CHANNEL_B},http://www.youtube.com/channel/${CHANNEL_B},Channel B`,
+      '',
+    ].join('\r\n'))
+
+    expect(result.channelIds).toEqual([CHANNEL_A, CHANNEL_B])
+    expect(result.titles).toEqual({ [CHANNEL_A]: 'Channel A', [CHANNEL_B]: 'Channel B' })
+    expect(result.invalidRows).toEqual([])
+  })
+
+  test('strips the BOM and keeps quoted commas in titles', () => {
+    const result = getSubsFromCsv([
+      '﻿Channel Id,Channel Url,Channel Title',
+      `${CHANNEL_A},http://www.youtube.com/channel/${CHANNEL_A},"Cats, Dogs and ""Others"""`,
+    ].join('\n'))
+
+    expect(result.channelIds).toEqual([CHANNEL_A])
+    expect(result.titles).toEqual({ [CHANNEL_A]: 'Cats, Dogs and "Others"' })
+  })
+
+  test('finds the columns of a localized header', () => {
+    const result = getSubsFromCsv([
+      'Titel des Kanals,URL des Kanals,Kanal-ID',
+      `Channel A,http://www.youtube.com/channel/${CHANNEL_A},${CHANNEL_A}`,
+    ].join('\n'))
+
+    expect(result.channelIds).toEqual([CHANNEL_A])
+    expect(result.titles).toEqual({ [CHANNEL_A]: 'Channel A' })
+  })
+
+  test('reads files without a header and with only channel URLs', () => {
+    const result = getSubsFromCsv([
+      `https://www.youtube.com/channel/${CHANNEL_A}`,
+      `https://www.youtube.com/feeds/videos.xml?channel_id=${CHANNEL_B}`,
+    ].join('\n'))
+
+    expect(result.channelIds).toEqual([CHANNEL_A, CHANNEL_B])
+    expect(result.invalidRows).toEqual([])
+  })
+
+  test('reports rows without a channel', () => {
+    const result = getSubsFromCsv([
+      'Channel Id,Channel Url,Channel Title',
+      `${CHANNEL_A},http://www.youtube.com/channel/${CHANNEL_A},Channel A`,
+      'oops,https://example.com,Not a channel',
+    ].join('\n'))
+
+    expect(result.channelIds).toEqual([CHANNEL_A])
+    expect(result.invalidRows).toEqual([{ row: 3, content: 'oops,https://example.com,Not a channel', reason: 'No channel ID or channel URL found' }])
+  })
+})
+
+// The same two channels in every format, so each importer can be compared to the YouTube one
+const youtubeJson = JSON.stringify([
+  { snippet: { title: 'Channel A', resourceId: { channelId: CHANNEL_A } } },
+  { snippet: { title: 'Channel B', resourceId: { channelId: CHANNEL_B } } },
+])
+const newPipeJson = JSON.stringify({
+  app_version: '0.26.1',
+  app_version_int: 996,
+  subscriptions: [
+    { service_id: 0, url: `https://www.youtube.com/channel/${CHANNEL_A}`, name: 'Channel A' },
+    { service_id: 1, url: 'https://soundcloud.com/someone', name: 'Someone' },
+    { service_id: 0, url: `https://www.youtube.com/channel/${CHANNEL_B}`, name: 'Channel B' },
+  ]
+})
+const freeTubeDb = [
+  JSON.stringify({ _id: 'allChannels', name: 'All Channels', subscriptions: [{ id: CHANNEL_A, name: 'Channel A' }] }),
+  JSON.stringify({ _id: 'music', name: 'Music', subscriptions: [{ id: CHANNEL_B, name: 'Channel B' }] }),
+  JSON.stringify({ _id: 'allChannels', name: 'All Channels', subscriptions: [{ id: CHANNEL_A, name: 'Channel A' }, { id: CHANNEL_B, name: 'Channel B' }] }),
+  JSON.stringify({ _id: 'old', name: 'Old', subscriptions: [{ id: CHANNEL_C, name: 'Channel C' }] }),
+  JSON.stringify({ _id: 'old', $$deleted: true }),
+  '',
+].join('\n')
+const freeTubeProfiles = [
+  { _id: 'allChannels', name: 'All Channels', subscriptions: [{ id: CHANNEL_A, name: 'Channel A' }, { id: CHANNEL_B, name: 'Channel B' }] },
+  { _id: 'music', name: 'Music', subscriptions: [{ id: CHANNEL_B, name: 'Channel B' }] },
+]
+const libreTubeJson = JSON.stringify({
+  watchHistory: [],
+  subscriptions: [
+    { channelId: CHANNEL_A, url: `https://www.youtube.com/channel/${CHANNEL_A}`, name: 'Channel A' },
+    { channelId: CHANNEL_B, url: `https://www.youtube.com/channel/${CHANNEL_B}`, name: 'Channel B' },
+  ],
+  playlists: [],
+})
+
+describe('getSubsFromNewPipe', () => {
+  test('reads YouTube subscriptions and reports the other services', () => {
+    const result = getSubsFromNewPipe(newPipeJson)
+
+    expect(result.channelIds).toEqual(getSubsFromJson(youtubeJson).channelIds)
+    expect(result.titles).toEqual(getSubsFromJson(youtubeJson).titles)
+    expect(result.invalidRows).toEqual([{ row: 2, content: 'https://soundcloud.com/someone', reason: 'Not a YouTube channel' }])
+  })
+
+  test('rejects JSON of another shape', () => {
+    expect(() => getSubsFromNewPipe('{"foo": 1}')).toThrow('not a NewPipe subscriptions export')
+  })
+})
+
+describe('getSubsFromFreeTube', () => {
+  test('reads profiles.db, keeping the last version of each profile', () => {
+    const result = getSubsFromFreeTube(freeTubeDb)
+
+    expect(result).toEqual(getSubsFromJson(youtubeJson))
+  })
+
+  test('reads the JSON profiles export', () => {
+    expect(getSubsFromFreeTube(JSON.stringify(freeTubeProfiles))).toEqual(getSubsFromJson(youtubeJson))
+    expect(getSubsFromFreeTube(JSON.stringify(freeTubeProfiles[0]))).toEqual(getSubsFromJson(youtubeJson))
+  })
+
+  test('reports lines that are not JSON documents', () => {
+    const result = getSubsFromFreeTube(`${freeTubeDb}\nnot json\n`)
+
+    expect(result.channelIds).toEqual([CHANNEL_A, CHANNEL_B])
+    expect(result.invalidRows).toEqual([{ row: 7, content: 'not json', reason: 'Not a valid JSON document' }])
+  })
+})
+
+describe('getSubsFromLibreTube', () => {
+  test('reads the subscriptions of a backup', () => {
+    expect(getSubsFromLibreTube(libreTubeJson)).toEqual(getSubsFromJson(youtubeJson))
+  })
+
+  test('reads older backups with only channel IDs', () => {
+    const result = getSubsFromLibreTube(JSON.stringify({ localSubscriptions: [{ channelId: CHANNEL_A }, { channelId: CHANNEL_B }] }))
+
+    expect(result.channelIds).toEqual([CHANNEL_A, CHANNEL_B])
+    expect(result.titles).toEqual({})
+    expect(result.invalidRows).toEqual([])
+  })
+})
+
+describe('getSubsFromFile', () => {
+  const csv = `Channel Id,Channel Url,Channel Title\n${CHANNEL_A},http://www.youtube.com/channel/${CHANNEL_A},Channel A\n`
+  const json = JSON.stringify([{ snippet: { title: 'Channel B', resourceId: { channelId: CHANNEL_B } } }])
+  const opml = `<opml><body><outline title="Channel C" xmlUrl="https://www.youtube.com/feeds/videos.xml?channel_id=${CHANNEL_C}" /></body></opml>`
+
+  test.each([
+    ['subscriptions.csv', csv, CHANNEL_A],
+    ['subscriptions.json', json, CHANNEL_B],
+    ['subscriptions.opml', opml, CHANNEL_C],
+    ['subscriptions.xml', opml, CHANNEL_C],
+  ])('picks the parser by the extension of %s', async (name, contents, channelId) => {
+    const result = await getSubsFromFile(new File([contents], name))
+    expect(result.channelIds).toEqual([channelId])
+  })
+
+  test.each([
+    ['subscriptions.json', youtubeJson],
+    ['newpipe_subscriptions.json', newPipeJson],
+    ['profiles.db', freeTubeDb],
+    ['freetube-profiles.json', JSON.stringify(freeTubeProfiles)],
+    ['libretube-backup.json', libreTubeJson],
+    ['libretube-backup.json', JSON.stringify({ localSubscriptions: [{ channelId: CHANNEL_A }, { channelId: CHANNEL_B }] })],
+    ['profiles', freeTubeDb],
+  ])('detects the format of %s', async (name, contents) => {
+    const result = await getSubsFromFile(new File([contents], name))
+    expect(result.channelIds).toEqual(getSubsFromJson(youtubeJson).channelIds)
+  })
+
+  test.each([
+    ['CSV', csv, CHANNEL_A],
+    ['JSON', json, CHANNEL_B],
+    ['OPML', opml, CHANNEL_C],
+  ])('sniffs %s contents when the extension is unknown', async (_format, contents, channelId) => {
+    const result = await getSubsFromFile(new File([`﻿${contents}`], 'subscriptions'))
+    expect(result.channelIds).toEqual([channelId])
+  })
+})
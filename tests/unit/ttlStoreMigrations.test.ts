@@ -0,0 +1,84 @@
+import 'fake-indexeddb/auto'
+
+// The caches only load in extension contexts. Settings are never read here, so the stores keep their defaults.
+Object.assign(globalThis, {
+  chrome: {
+    runtime: { getURL: (path: string) => path },
+    storage: {
+      local: { get: jest.fn(), set: jest.fn() },
+      onChanged: { addListener: jest.fn(), removeListener: jest.fn() },
+    },
+  },
+})
+
+const HOUR = 60 * 60 * 1000
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.addEventListener('success', () => resolve(request.result))
+    request.addEventListener('error', () => reject(request.error))
+  })
+}
+
+/**
+ * Creates a database the way version 1 of the extension did, with entries in the `{ value, expireAt }` shape
+ */
+async function createVersion1Database(name: string, stores: Record<string, Record<string, unknown>>) {
+  const openRequest = indexedDB.open(name, 1)
+  openRequest.addEventListener('upgradeneeded', () => {
+    for (const storeName of Object.keys(stores)) {
+      openRequest.result.createObjectStore(storeName).createIndex('expireAt', 'expireAt')
+    }
+  })
+  const database = await requestToPromise(openRequest)
+
+  const transaction = database.transaction(Object.keys(stores), 'readwrite')
+  for (const [storeName, entries] of Object.entries(stores)) {
+    for (const [key, value] of Object.entries(entries)) {
+      transaction.objectStore(storeName).put({ value, expireAt: new Date(Date.now() + HOUR) }, key)
+    }
+  }
+  await new Promise((resolve) => transaction.addEventListener('complete', resolve))
+  database.close()
+}
+
+async function getIndexNames(name: string, storeName: string) {
+  const database = await requestToPromise(indexedDB.open(name))
+  const indexNames = Array.from(database.transaction(storeName, 'readonly').objectStore(storeName).indexNames)
+  database.close()
+  return indexNames
+}
+
+test('the URL cache keeps version 1 entries when it upgrades to version 3', async () => {
+  await createVersion1Database('yt-url-resolver-cache', {
+    store: { 'video:abc': '@channel#1/video#2', 'channel:none': null },
+  })
+
+  const { odyseeUrlCache } = await import('../../src/modules/yt/urlCache')
+
+  expect(await odyseeUrlCache.getEntry('video:abc')).toEqual({ value: '@channel#1/video#2', expired: false })
+  expect(await odyseeUrlCache.get('channel:none')).toBeNull()
+  expect((await odyseeUrlCache.store.entries()).map((entry) => [entry.key, entry.lastAccessAt instanceof Date])).toEqual([
+    ['channel:none', true],
+    ['video:abc', true],
+  ])
+  expect(await getIndexNames('yt-url-resolver-cache', 'store')).toEqual(['expireAt', 'lastAccessAt'])
+  expect(await getIndexNames('yt-url-resolver-cache', 'failures')).toEqual(['expireAt', 'lastAccessAt'])
+})
+
+test('the channel cache keeps version 1 entries when it upgrades to version 2', async () => {
+  await createVersion1Database('yt-channel-cache-v1', {
+    handles: { veritasium: 'UCHnyfMqiRRG1u-2MsSQLbXA' },
+    ucs: { 'UCHnyfMqiRRG1u-2MsSQLbXA': { id: '@veritasium#f', type: 'channel' } },
+    yturls: { '/@veritasium': 'UCHnyfMqiRRG1u-2MsSQLbXA' },
+  })
+
+  const { channelCache } = await import('../../src/modules/yt/channelCache')
+
+  expect(await channelCache.getHandle('@veritasium')).toBe('UCHnyfMqiRRG1u-2MsSQLbXA')
+  expect(await channelCache.getUC('UCHnyfMqiRRG1u-2MsSQLbXA')).toEqual({ id: '@veritasium#f', type: 'channel' })
+  expect(await channelCache.getYtUrl('/@veritasium')).toBe('UCHnyfMqiRRG1u-2MsSQLbXA')
+  for (const storeName of ['handles', 'ucs', 'yturls']) {
+    expect(await getIndexNames('yt-channel-cache-v1', storeName)).toEqual(['expireAt', 'lastAccessAt'])
+  }
+})
@@ -0,0 +1,177 @@
+import { TextDecoder } from 'util'
+import { DecompressionStream } from 'stream/web'
+import { deflateRawSync } from 'zlib'
+import { readZipEntries, readZipEntryText } from '../../src/modules/file/zip'
+import { getSubsFromTakeout } from '../../src/modules/yt'
+
+// jsdom lacks these, browsers have both
+Object.assign(globalThis, { TextDecoder, DecompressionStream })
+
+const CHANNEL_A = 'UCaaaaaaaaaaaaaaaaaaaaaa'
+const CHANNEL_B = 'UCbbbbbbbbbbbbbbbbbbbbbb'
+
+const subscriptionsCsv = [
+  'Channel Id,Channel Url,Channel Title',
+  `${CHANNEL_A},http://www.youtube.com/channel/${CHANNEL_A},Channel A`,
+  `${CHANNEL_B},http://www.youtube.com/channel/${CHANNEL_B},Channel B`,
+].join('\n')
+
+interface TestEntry {
+  name: string
+  contents?: string
+  deflate?: boolean
+}
+
+/**
+ * Builds a ZIP archive in memory, CRCs are left at 0 since the reader doesn't check them
+ */
+function createZip(entries: TestEntry[]): Uint8Array {
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name)
+    const raw = Buffer.from(entry.contents ?? '')
+    const data = entry.deflate ? deflateRawSync(raw) : raw
+    const method = entry.deflate ? 8 : 0
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(0x0800, 6)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(name.length, 26)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, name, data)
+    centralParts.push(central, name)
+    offset += local.length + name.length + data.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const eocd = Buffer.alloc(22)
+  eocd.writeUInt32LE(0x06054b50, 0)
+  eocd.writeUInt16LE(entries.length, 8)
+  eocd.writeUInt16LE(entries.length, 10)
+  eocd.writeUInt32LE(centralDirectory.length, 12)
+  eocd.writeUInt32LE(offset, 16)
+
+  return new Uint8Array(Buffer.concat([...localParts, centralDirectory, eocd]))
+}
+
+const toBlob = (bytes: Uint8Array) => new Blob([bytes])
+
+describe('readZipEntries', () => {
+  test('lists files and leaves directories out', async () => {
+    const entries = await readZipEntries(toBlob(createZip([
+      { name: 'Takeout/' },
+      { name: 'Takeout/YouTube and YouTube Music/subscriptions/subscriptions.csv', contents: subscriptionsCsv },
+      { name: 'Takeout/archive_browser.html', contents: '<html></html>', deflate: true },
+    ])))
+
+    expect(entries.map((entry) => entry.name)).toEqual([
+      'Takeout/YouTube and YouTube Music/subscriptions/subscriptions.csv',
+      'Takeout/archive_browser.html',
+    ])
+    expect(entries.map((entry) => entry.compressionMethod)).toEqual([0, 8])
+  })
+
+  test('rejects files that are not ZIP archives', async () => {
+    await expect(readZipEntries(toBlob(Buffer.from(subscriptionsCsv)))).rejects.toThrow('Not a ZIP archive, or the archive is incomplete.')
+  })
+
+  test('rejects an archive cut before its central directory ends', async () => {
+    const zip = createZip([{ name: 'subscriptions.csv', contents: subscriptionsCsv }])
+    await expect(readZipEntries(toBlob(zip.slice(0, zip.length - 10)))).rejects.toThrow('Not a ZIP archive, or the archive is incomplete.')
+  })
+
+  test('rejects a central directory that points past the end of the archive', async () => {
+    const zip = createZip([{ name: 'subscriptions.csv', contents: subscriptionsCsv }])
+    new DataView(zip.buffer).setUint32(zip.length - 6, zip.length, true)
+    await expect(readZipEntries(toBlob(zip))).rejects.toThrow('The ZIP archive is corrupted or incomplete.')
+  })
+
+  test('rejects entries whose name runs past the central directory', async () => {
+    const zip = createZip([{ name: 'subscriptions.csv', contents: subscriptionsCsv }])
+    const centralDirectoryOffset = new DataView(zip.buffer).getUint32(zip.length - 6, true)
+    new DataView(zip.buffer).setUint16(centralDirectoryOffset + 28, 0xfff, true)
+    await expect(readZipEntries(toBlob(zip))).rejects.toThrow('The ZIP archive is corrupted or incomplete.')
+  })
+})
+
+describe('readZipEntryText', () => {
+  test.each([
+    ['stored', false],
+    ['deflated', true],
+  ])('reads %s entries', async (_method, deflate) => {
+    const file = toBlob(createZip([
+      { name: 'other.txt', contents: 'other', deflate },
+      { name: 'subscriptions.csv', contents: subscriptionsCsv, deflate },
+    ]))
+    const [, entry] = await readZipEntries(file)
+
+    expect(await readZipEntryText(file, entry)).toBe(subscriptionsCsv)
+  })
+
+  test('rejects entries whose data is missing', async () => {
+    const file = toBlob(createZip([{ name: 'subscriptions.csv', contents: subscriptionsCsv }]))
+    const [entry] = await readZipEntries(file)
+
+    await expect(readZipEntryText(file, { ...entry, compressedSize: file.size })).rejects.toThrow('Corrupted ZIP entry: subscriptions.csv')
+    await expect(readZipEntryText(file, { ...entry, localHeaderOffset: file.size - 10 })).rejects.toThrow('Corrupted ZIP entry: subscriptions.csv')
+  })
+
+  test('rejects corrupted deflate data', async () => {
+    const zip = createZip([{ name: 'subscriptions.csv', contents: subscriptionsCsv, deflate: true }])
+    const file = toBlob(zip)
+    const [entry] = await readZipEntries(file)
+    const dataStart = 30 + entry.name.length
+    zip.fill(0xff, dataStart, dataStart + entry.compressedSize)
+
+    await expect(readZipEntryText(toBlob(zip), entry)).rejects.toThrow('Corrupted ZIP entry: subscriptions.csv')
+  })
+})
+
+describe('getSubsFromTakeout', () => {
+  test('reads the English subscriptions file', async () => {
+    const result = await getSubsFromTakeout(toBlob(createZip([
+      { name: 'Takeout/YouTube and YouTube Music/history/watch-history.html', contents: '<html></html>', deflate: true },
+      { name: 'Takeout/YouTube and YouTube Music/subscriptions/subscriptions.csv', contents: subscriptionsCsv, deflate: true },
+    ])))
+
+    expect(result.channelIds).toEqual([CHANNEL_A, CHANNEL_B])
+    expect(result.titles).toEqual({ [CHANNEL_A]: 'Channel A', [CHANNEL_B]: 'Channel B' })
+  })
+
+  test('finds the subscriptions file in localized folders', async () => {
+    const result = await getSubsFromTakeout(toBlob(createZip([
+      { name: 'Takeout/YouTube und YouTube Music/Kanäle/Kanäle.csv', contents: `Kanal-ID,Titel\n${CHANNEL_A},Mein Kanal`, deflate: true },
+      { name: 'Takeout/YouTube und YouTube Music/Abos/Abos.csv', contents: `Kanal-ID,Kanal-URL,Kanaltitel\n${CHANNEL_B},http://www.youtube.com/channel/${CHANNEL_B},Channel B`, deflate: true },
+    ])))
+
+    expect(result.channelIds).toEqual([CHANNEL_B])
+    expect(result.titles).toEqual({ [CHANNEL_B]: 'Channel B' })
+  })
+
+  test('explains when the archive has no subscriptions file', async () => {
+    const file = toBlob(createZip([
+      { name: 'Takeout/YouTube and YouTube Music/history/watch-history.html', contents: '<html></html>' },
+      { name: 'Takeout/YouTube and YouTube Music/playlists/Watch later.csv', contents: 'Video ID,Playlist Video Creation Timestamp\nabc,2020' },
+    ]))
+
+    await expect(getSubsFromTakeout(file)).rejects.toThrow('No YouTube subscriptions found in this archive.')
+  })
+})